@@ -0,0 +1,52 @@
+import { pathToFileURL } from 'node:url'
+import { toSarif, toJUnit } from '@gts/shared'
+import type { ValidationSummary } from './validate.js'
+
+export type OutputFormat = 'text' | 'json' | 'sarif' | 'junit'
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif', 'junit']
+
+function pluralize(count: number, word: string, plural = `${word}s`): string {
+  return `${count} ${count === 1 ? word : plural}`
+}
+
+/**
+ * Human-readable report: one line per problem ("file:line:column  severity  message  rule"), then a summary
+ */
+export function formatText(summary: ValidationSummary, quiet = false): string {
+  const problems = quiet ? summary.problems.filter(p => p.severity === 'error') : summary.problems
+  const lines = problems.map(p =>
+    `${p.line !== undefined ? `${p.file}:${p.line}:${p.column}` : p.file}  ${p.severity.padEnd(7)}  ${p.message}  ${p.ruleId}${p.entityId ? `  (${p.entityId})` : ''}`
+  )
+
+  const files = new Set(problems.map(p => p.file)).size
+  const scanned = `${pluralize(summary.filesScanned, 'file')} scanned, ${pluralize(summary.entities.length, 'entity', 'entities')}`
+  if (problems.length === 0) {
+    lines.push(`✔ No problems (${scanned})`)
+  } else {
+    const counts = quiet
+      ? pluralize(summary.errors, 'error')
+      : `${pluralize(summary.errors, 'error')}, ${pluralize(summary.warnings, 'warning')}`
+    lines.push('', `✖ ${counts} in ${pluralize(files, 'file')} (${scanned})`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+export function formatJson(summary: ValidationSummary): string {
+  return JSON.stringify(summary, null, 2) + '\n'
+}
+
+/**
+ * SARIF 2.1.0 log; file URIs are relative to the scanned folder
+ */
+export function formatSarif(summary: ValidationSummary, root: string, toolVersion: string): string {
+  const rootUri = pathToFileURL(root.endsWith('/') ? root : `${root}/`).href
+  return toSarif(summary, { version: toolVersion, rootUri })
+}
+
+/**
+ * JUnit XML with one test suite per file and one test case per entity
+ */
+export function formatJUnit(summary: ValidationSummary): string {
+  return toJUnit(summary)
+}
@@ -0,0 +1,210 @@
+#!/usr/bin/env node
+import { readFileSync } from 'node:fs'
+import { writeFile, stat, mkdir } from 'node:fs/promises'
+import { resolve, join } from 'node:path'
+import { JsonRegistry, DEFAULT_GTS_CONFIG, generateTypeScriptModules } from '@gts/shared'
+import { scanWorkspace } from './scan.js'
+import { collectProblems } from './validate.js'
+import { OutputFormat, OUTPUT_FORMATS, formatText, formatJson, formatSarif, formatJUnit } from './format.js'
+
+// Exit codes: the number of errors (capped), or EXIT_USAGE for bad arguments and unreadable folders
+const MAX_ERROR_EXIT_CODE = 250
+const EXIT_USAGE = 255
+
+interface ValidateOptions {
+  folder: string
+  format: OutputFormat
+  output?: string
+  quiet: boolean
+}
+
+interface TypesOptions {
+  folder: string
+  outDir: string
+}
+
+const DEFAULT_TYPES_DIR = 'gts-types'
+
+class UsageError extends Error {}
+
+function cliVersion(): string {
+  try {
+    return JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf-8')).version
+  } catch {
+    return '0.0.0'
+  }
+}
+
+function printHelp(): void {
+  console.log(`
+GTS CLI - Validate GTS schemas and instances
+
+Usage: gts validate [folder] [options]
+       gts types [folder] [--out <dir>]
+
+Scans the folder (default: current directory) for .json, .jsonc, .gts, .yaml and .yml files,
+skipping node_modules and hidden directories.
+
+Commands:
+  validate                Report validation errors
+  types                   Generate TypeScript declarations, one module per GTS type ID
+
+Validate options:
+  --format, -f <format>   Output format: text, json, sarif, junit (default: text)
+  --output, -o <path>     Write the report to a file instead of stdout
+  --quiet, -q             Text format: report errors only, not warnings
+
+Types options:
+  --out, -o <dir>         Output directory (default: ./${DEFAULT_TYPES_DIR})
+
+  --help, -h              Show this help message
+  --version               Show the CLI version
+
+Exit codes:
+  0        No errors (warnings do not fail the run)
+  1-${MAX_ERROR_EXIT_CODE}    Number of errors found (capped at ${MAX_ERROR_EXIT_CODE})
+  ${EXIT_USAGE}      Invalid arguments or unreadable folder
+`)
+}
+
+/**
+ * Parse the arguments of the validate command
+ */
+function parseValidateArgs(args: string[]): ValidateOptions {
+  const options: ValidateOptions = { folder: process.cwd(), format: 'text', quiet: false }
+  let folder: string | undefined
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    switch (arg) {
+      case '--format':
+      case '-f': {
+        const format = args[++i] as OutputFormat
+        if (!OUTPUT_FORMATS.includes(format)) {
+          throw new UsageError(`Unknown format '${format ?? ''}', expected one of: ${OUTPUT_FORMATS.join(', ')}`)
+        }
+        options.format = format
+        break
+      }
+
+      case '--output':
+      case '-o':
+        if (i + 1 >= args.length) throw new UsageError(`${arg} requires a path`)
+        options.output = resolve(args[++i])
+        break
+
+      case '--quiet':
+      case '-q':
+        options.quiet = true
+        break
+
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option '${arg}'`)
+        if (folder) throw new UsageError(`Unexpected argument '${arg}'`)
+        folder = arg
+    }
+  }
+
+  if (folder) options.folder = resolve(folder)
+  return options
+}
+
+/**
+ * Parse the arguments of the types command
+ */
+function parseTypesArgs(args: string[]): TypesOptions {
+  let folder: string | undefined
+  let outDir: string | undefined
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--out' || arg === '-o') {
+      if (i + 1 >= args.length) throw new UsageError(`${arg} requires a directory`)
+      outDir = args[++i]
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option '${arg}'`)
+    } else if (folder) {
+      throw new UsageError(`Unexpected argument '${arg}'`)
+    } else {
+      folder = arg
+    }
+  }
+  return { folder: resolve(folder ?? process.cwd()), outDir: resolve(outDir ?? DEFAULT_TYPES_DIR) }
+}
+
+/**
+ * Scan and ingest a folder into a new registry, honouring the folder's workspace config
+ */
+async function loadRegistry(folder: string) {
+  const info = await stat(folder).catch(() => null)
+  if (!info?.isDirectory()) throw new UsageError(`Not a folder: ${folder}`)
+
+  const files = await scanWorkspace(folder)
+  const registry = new JsonRegistry()
+  await registry.ingestFiles(files, DEFAULT_GTS_CONFIG)
+  return { registry, files }
+}
+
+/**
+ * Generate TypeScript modules for the schemas of a folder
+ */
+async function runTypes(options: TypesOptions): Promise<number> {
+  const { registry } = await loadRegistry(options.folder)
+  const modules = generateTypeScriptModules(registry)
+  await mkdir(options.outDir, { recursive: true })
+  for (const module of modules) {
+    await writeFile(join(options.outDir, module.fileName), module.content, 'utf-8')
+  }
+  const types = modules.filter(m => m.typeId).length
+  console.log(`Generated ${types} type${types === 1 ? '' : 's'} in ${options.outDir}`)
+  return 0
+}
+
+/**
+ * Scan, ingest and validate a folder, write the report and return the exit code
+ */
+async function runValidate(options: ValidateOptions): Promise<number> {
+  const { registry, files } = await loadRegistry(options.folder)
+  const summary = collectProblems(registry, files, options.folder)
+
+  const report = options.format === 'json'
+    ? formatJson(summary)
+    : options.format === 'sarif'
+      ? formatSarif(summary, options.folder, cliVersion())
+      : options.format === 'junit'
+        ? formatJUnit(summary)
+        : formatText(summary, options.quiet)
+
+  if (options.output) {
+    await writeFile(options.output, report, 'utf-8')
+  } else {
+    process.stdout.write(report)
+  }
+  return Math.min(summary.errors, MAX_ERROR_EXIT_CODE)
+}
+
+async function main(args: string[]): Promise<number> {
+  const [command, ...rest] = args
+  if (!command || command === '--help' || command === '-h' || rest.includes('--help') || rest.includes('-h')) {
+    printHelp()
+    return 0
+  }
+  if (command === '--version') {
+    console.log(cliVersion())
+    return 0
+  }
+  if (command === 'validate') return runValidate(parseValidateArgs(rest))
+  if (command === 'types') return runTypes(parseTypesArgs(rest))
+  throw new UsageError(`Unknown command '${command}'`)
+}
+
+main(process.argv.slice(2))
+  .then(code => { process.exitCode = code })
+  .catch((err) => {
+    if (err instanceof UsageError) {
+      console.error(`[GTS CLI] ${err.message}. Run 'gts --help' for usage.`)
+    } else {
+      console.error(`[GTS CLI] ${process.argv[2]} failed:`, err)
+    }
+    process.exitCode = EXIT_USAGE
+  })
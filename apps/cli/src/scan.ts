@@ -0,0 +1,61 @@
+import { readdir, readFile } from 'node:fs/promises'
+import { basename, join, relative } from 'node:path'
+import { isGtsCandidateFileName, isYamlFileName, parseJSONC, parseYAML, parseWorkspaceConfig, isIgnoredPath, WORKSPACE_CONFIG_PATH } from '@gts/shared'
+import type { JsonFileInput } from '@gts/shared'
+
+/**
+ * A scanned file: registry input plus the original text, used to locate errors by line
+ */
+export interface ScannedFile extends JsonFileInput {
+  text: string
+}
+
+/**
+ * Read a file for the registry. Unparsable files are passed on as text so the registry reports them as invalid files.
+ */
+async function readScannedFile(fullPath: string): Promise<ScannedFile> {
+  const name = basename(fullPath)
+  const text = await readFile(fullPath, 'utf-8')
+  let content: any
+  try {
+    content = isYamlFileName(name) ? parseYAML(text) : parseJSONC(text)
+  } catch {
+    content = text
+  }
+  return { path: fullPath, name, content, text }
+}
+
+/**
+ * Recursively collect GTS candidate files, skipping node_modules and hidden directories (same rules as the server)
+ * and any path the skip callback matches.
+ */
+export async function scanDirectory(dir: string, files: ScannedFile[] = [], skip?: (path: string) => boolean): Promise<ScannedFile[]> {
+  const entries = await readdir(dir, { withFileTypes: true })
+
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name)
+    if (skip?.(fullPath)) continue
+
+    if (entry.isDirectory()) {
+      if (entry.name === 'node_modules' || entry.name.startsWith('.')) {
+        continue
+      }
+      await scanDirectory(fullPath, files, skip)
+    } else if (entry.isFile() && isGtsCandidateFileName(entry.name)) {
+      files.push(await readScannedFile(fullPath))
+    }
+  }
+
+  return files
+}
+
+/**
+ * Scan a workspace folder: its .gts/config.json, if any, followed by the candidate files
+ * its ignore globs leave in
+ */
+export async function scanWorkspace(root: string): Promise<ScannedFile[]> {
+  const config = await readScannedFile(join(root, WORKSPACE_CONFIG_PATH)).catch(() => null)
+  const ignore = config ? parseWorkspaceConfig(config.content).ignore : undefined
+  const files = await scanDirectory(root, [], path => isIgnoredPath(relative(root, path), ignore))
+  return config ? [config, ...files] : files
+}
@@ -0,0 +1,19 @@
+import { JsonRegistry, ValidationReport, buildValidationReport } from '@gts/shared'
+import type { ScannedFile } from './scan.js'
+
+/**
+ * Result of validating a folder
+ */
+export interface ValidationSummary extends ValidationReport {
+  filesScanned: number
+}
+
+/**
+ * Validation report of the ingested folder, with problems located in the scanned texts
+ * and file paths relative to the folder
+ */
+export function collectProblems(registry: JsonRegistry, files: ScannedFile[], root: string): ValidationSummary {
+  const texts = new Map(files.map(f => [f.path, f.text]))
+  const report = buildValidationReport(registry, { readText: p => texts.get(p), rootPath: root })
+  return { filesScanned: files.length, ...report }
+}
@@ -10,11 +10,30 @@ let layoutStorage: HomeFolderLayoutStorage
 // Lazy-load ESM module from CJS using dynamic import
 let parseJSONCFn: ((s: string) => any) | null = null
 let parseYAMLFn: ((s: string) => any) | null = null
+let parseWorkspaceConfigFn: ((content: any) => any) | null = null
+let isIgnoredPathFn: ((relativePath: string, globs: string[] | undefined) => boolean) | null = null
+let workspaceConfigPath = ''
 async function ensureSharedLoaded() {
   if (!parseJSONCFn) {
     const mod: any = await import('@gts-viewer/shared')
     parseJSONCFn = mod.parseJSONC
     parseYAMLFn = mod.parseYAML
+    parseWorkspaceConfigFn = mod.parseWorkspaceConfig
+    isIgnoredPathFn = mod.isIgnoredPath
+    workspaceConfigPath = mod.WORKSPACE_CONFIG_PATH
+  }
+}
+
+/**
+ * Read the workspace config of a directory; an absent or unparsable file yields no settings.
+ * The file itself is still read with the directory, so the registry reports its problems.
+ */
+async function readWorkspaceConfig(directoryPath: string): Promise<any> {
+  try {
+    const content = await fs.readFile(path.join(directoryPath, workspaceConfigPath), 'utf-8')
+    return parseWorkspaceConfigFn!(parseJSONCFn!(content))
+  } catch {
+    return {}
   }
 }
 
@@ -83,11 +102,18 @@ ipcMain.handle('read-directory', async (_, directoryPath: string) => {
     const files: Array<{ path: string; name: string; content: any; isSchema: boolean }> = []
     await ensureSharedLoaded()
 
+    // Layouts go where the workspace config asks: the workspace's .gts-viewer/ or the home folder
+    const workspaceConfig = await readWorkspaceConfig(directoryPath)
+    layoutStorage = workspaceConfig.layout?.storage === 'workspace'
+      ? new HomeFolderLayoutStorage(path.join(directoryPath, '.gts-viewer'))
+      : new HomeFolderLayoutStorage()
+
     async function readDirectory(dirPath: string) {
       const entries = await fs.readdir(dirPath, { withFileTypes: true })
 
       for (const entry of entries) {
         const fullPath = path.join(dirPath, entry.name)
+        if (isIgnoredPathFn!(path.relative(directoryPath, fullPath), workspaceConfig.ignore)) continue
 
         if (entry.isDirectory()) {
           await readDirectory(fullPath)
@@ -6,13 +6,14 @@ import type { ILayoutStorage, LayoutSnapshot, LayoutSaveRequest, LayoutTarget }
 
 /**
  * Home folder-based layout storage for Electron version
- * Stores layouts in ~/.gts-viewer/layouts/ directory
+ * Stores layouts in ~/.gts-viewer/layouts/ directory, or in the given directory
+ * (e.g. the workspace's .gts-viewer/ when its config asks for workspace storage)
  */
 export class HomeFolderLayoutStorage implements ILayoutStorage {
   private layoutsDir: string
 
-  constructor() {
-    this.layoutsDir = join(homedir(), '.gts-viewer', 'layouts')
+  constructor(layoutsDir: string = join(homedir(), '.gts-viewer', 'layouts')) {
+    this.layoutsDir = layoutsDir
   }
 
   private async ensureLayoutsDir(): Promise<void> {
@@ -15,6 +15,8 @@ export interface ServerConfig {
   verbosity: VerbosityLevel
   dbFile?: string
   defaultWorkspace: string
+  /** Watch scanFolder and apply file changes to the registry as they happen */
+  watch: boolean
 }
 
 export interface ConfigFileSchema {
@@ -23,6 +25,7 @@ export interface ConfigFileSchema {
   scanFolder?: string
   verbosity?: VerbosityLevel
   dbFile?: string
+  watch?: boolean
 }
 
 const DEFAULT_CONFIG: ServerConfig = {
@@ -31,7 +34,8 @@ const DEFAULT_CONFIG: ServerConfig = {
   homeFolder: resolve(homedir(), '.gts-viewer', 'server'),
   scanFolder: cwd(),
   verbosity: 'normal',
-  defaultWorkspace: 'default'
+  defaultWorkspace: 'default',
+  watch: true
 }
 
 /**
@@ -110,6 +114,10 @@ export function parseCliArgs(args: string[]): Partial<ServerConfig> & { configFi
         config.verbosity = 'silent'
         break
 
+      case '--no-watch':
+        config.watch = false
+        break
+
       case '--db':
       case '--db-file':
         if (i + 1 < args.length) {
@@ -160,6 +168,9 @@ export async function loadConfig(cliArgs?: string[]): Promise<ServerConfig> {
   if (process.env.GTS_SERVER_DB_FILE) {
     envConfig.dbFile = process.env.GTS_SERVER_DB_FILE
   }
+  if (process.env.GTS_SERVER_WATCH) {
+    envConfig.watch = process.env.GTS_SERVER_WATCH !== 'false'
+  }
 
   // Merge configurations (CLI > File > Env > Default)
   const config: ServerConfig = {
@@ -190,6 +201,7 @@ export function printConfig(config: ServerConfig): void {
   console.log(`  Verbosity:         ${config.verbosity}`)
   console.log(`  DB File:           ${config.dbFile}`)
   console.log(`  Default Workspace: ${config.defaultWorkspace}`)
+  console.log(`  Watch:             ${config.watch}`)
 }
 
 /**
@@ -209,6 +221,7 @@ Options:
   --debug                       Enable debug verbosity
   --silent                      Enable silent verbosity
   --db, --db-file <path>        Database file path (default: <home-folder>/viewer.db)
+  --no-watch                    Do not watch the scan folder for changes
   --config, -c <path>           Path to config file
   --help, -h                    Show this help message
 
@@ -225,7 +238,8 @@ Config File:
     "homeFolder": "~/.gts-viewer/server",
     "scanFolder": ".",
     "verbosity": "normal",
-    "dbFile": "viewer.db"
+    "dbFile": "viewer.db",
+    "watch": true
   }
 
 Environment Variables:
@@ -234,6 +248,7 @@ Environment Variables:
   GTS_SERVER_SCAN_FOLDER       Folder to scan
   GTS_SERVER_VERBOSITY         Verbosity level
   GTS_SERVER_DB_FILE    Database file path
+  GTS_SERVER_WATCH      Set to false to disable watching the scan folder
 
 Priority: CLI args > Config file > Environment variables > Defaults
 `)
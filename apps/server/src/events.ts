@@ -0,0 +1,129 @@
+import type { Response } from 'express'
+import type { JsonRegistry, JsonEntity, ServerEvent } from '@gts/shared'
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 25000
+// Delay before a disconnected EventSource reconnects
+const RECONNECT_DELAY_MS = 3000
+
+/**
+ * Server-Sent Events fan-out: every published event goes to every connected client
+ */
+export class EventHub {
+  private clients: Set<Response>
+  private nextEventId: number
+  private heartbeat: NodeJS.Timeout | null
+
+  constructor() {
+    this.clients = new Set<Response>()
+    this.nextEventId = 1
+    this.heartbeat = null
+  }
+
+  get size(): number {
+    return this.clients.size
+  }
+
+  /**
+   * Turn a response into an event stream that stays open until the client disconnects
+   */
+  subscribe(res: Response): void {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    })
+    res.flushHeaders()
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+    this.clients.add(res)
+    res.on('close', () => {
+      this.clients.delete(res)
+      if (this.clients.size === 0 && this.heartbeat) {
+        clearInterval(this.heartbeat)
+        this.heartbeat = null
+      }
+    })
+    if (!this.heartbeat) {
+      this.heartbeat = setInterval(() => {
+        for (const client of this.clients) client.write(': ping\n\n')
+      }, HEARTBEAT_INTERVAL_MS)
+    }
+  }
+
+  publish(event: ServerEvent): void {
+    if (this.clients.size === 0) return
+    const message = `id: ${this.nextEventId++}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+    for (const client of this.clients) client.write(message)
+  }
+
+  /**
+   * End all streams, so the HTTP server can close
+   */
+  close(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat)
+      this.heartbeat = null
+    }
+    for (const client of this.clients) client.end()
+    this.clients.clear()
+  }
+}
+
+interface EntityState {
+  isSchema: boolean
+  content: string
+  validation: string
+  errors: number
+  warnings: number
+}
+
+/**
+ * Content and validation results of every entity, to compare before and after a registry update
+ */
+export type RegistrySnapshot = Map<string, EntityState>
+
+function entityState(entity: JsonEntity): EntityState {
+  const errors = entity.validation?.errors ?? []
+  const warnings = errors.filter(e => e.severity === 'warning').length
+  return {
+    isSchema: entity.isSchema,
+    content: JSON.stringify(entity.content),
+    validation: JSON.stringify(errors.map(e => [e.instancePath, e.keyword, e.message, e.severity])),
+    errors: errors.length - warnings,
+    warnings
+  }
+}
+
+export function snapshotRegistry(registry: JsonRegistry): RegistrySnapshot {
+  const snapshot: RegistrySnapshot = new Map()
+  for (const entity of [...registry.jsonSchemas.values(), ...registry.jsonObjs.values()]) {
+    snapshot.set(entity.id, entityState(entity))
+  }
+  return snapshot
+}
+
+/**
+ * Events describing how the registry changed between two snapshots
+ */
+export function diffRegistrySnapshots(before: RegistrySnapshot, after: RegistrySnapshot, registryGeneration: number): ServerEvent[] {
+  const events: ServerEvent[] = []
+  for (const [id, state] of after) {
+    const previous = before.get(id)
+    if (!previous) {
+      events.push({ type: 'entity-added', id, isSchema: state.isSchema, registryGeneration })
+    } else if (previous.content !== state.content) {
+      events.push({ type: 'entity-changed', id, isSchema: state.isSchema, registryGeneration })
+    }
+    if (previous ? previous.validation !== state.validation : state.errors + state.warnings > 0) {
+      events.push({ type: 'validation-changed', id, errors: state.errors, warnings: state.warnings, registryGeneration })
+    }
+  }
+  for (const [id, state] of before) {
+    if (!after.has(id)) {
+      events.push({ type: 'entity-removed', id, isSchema: state.isSchema, registryGeneration })
+    }
+  }
+  return events
+}
@@ -1,15 +1,17 @@
-import express, { Express } from 'express'
+import express, { Express, NextFunction, Request, Response } from 'express'
 import cors from 'cors'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { readdir, readFile } from 'node:fs/promises'
-import { join, basename } from 'node:path'
+import { readdir, readFile, stat } from 'node:fs/promises'
+import { join, basename, relative, sep } from 'node:path'
 import { openSqlite } from './db.js'
+import { watchFolder, type FolderWatcher } from './watch.js'
+import { EventHub, snapshotRegistry, diffRegistrySnapshots, type RegistrySnapshot } from './events.js'
 import type { LayoutSaveRequest, LayoutSnapshot, GlobalSettings } from '@gts/shared'
-import { JsonRegistry, getGtsConfig, GtsConfig, DEFAULT_GTS_CONFIG, parseJSONC, parseYAML, decodeGtsId, isGtsCandidateFileName } from '@gts/shared'
-import { randomUUID } from 'crypto'
+import { JsonRegistry, JsonEntity, getGtsConfig, GtsConfig, DEFAULT_GTS_CONFIG, parseJSONC, parseYAML, decodeGtsId, isGtsCandidateFileName, WORKSPACE_CONFIG_PATH, searchEntities, GTS_CLIENT_ID_HEADER, normalizeGtsId } from '@gts/shared'
+import { randomUUID, createHash } from 'crypto'
 import type { Server } from 'node:http'
-import type { ServerConfig } from './config.js'
+import type { ServerConfig, VerbosityLevel } from './config.js'
 
 // Re-export types for convenience
 export type { LayoutSaveRequest, LayoutSnapshot, GlobalSettings } from '@gts/shared'
@@ -22,6 +24,22 @@ export interface ServerOptions {
 
 // In-memory registry for GTS entities
 let registry: JsonRegistry = new JsonRegistry()
+// GTS configuration the registry was loaded with
+let registryConfig: GtsConfig = DEFAULT_GTS_CONFIG
+// Folder the registry was scanned from, and how verbosely to report rescans of it
+let registryFolder: string | null = null
+let registryVerbosity: VerbosityLevel = 'normal'
+// Incremented on every change of the registry content, so clients can tell when to reload
+let registryGeneration = 0
+// Registry updates run one at a time, in the order they were requested
+let registryUpdates: Promise<unknown> = Promise.resolve()
+// Clients subscribed to GET /events
+const events = new EventHub()
+
+// Largest number of payloads accepted by one POST /validate request
+const MAX_VALIDATE_BATCH = 1000
+// Largest JSON body accepted by POST /validate (other routes take 2mb): room for a full batch of payloads
+const VALIDATE_BODY_LIMIT = '20mb'
 
 export interface ServerInstance {
   port: number
@@ -29,6 +47,22 @@ export interface ServerInstance {
   app: Express
 }
 
+/**
+ * Read and parse a candidate file; null if it cannot be read or parsed
+ */
+async function readScanFile(fullPath: string): Promise<{ path: string; name: string; content: any } | null> {
+  try {
+    const content = await readFile(fullPath, 'utf-8')
+    const name = basename(fullPath)
+    const isYaml = name.endsWith('.yaml') || name.endsWith('.yml')
+    const parsed = isYaml ? parseYAML(content) : parseJSONC(content)
+    return { path: fullPath, name, content: parsed }
+  } catch (error) {
+    // Skip invalid files
+    return null
+  }
+}
+
 /**
  * Recursively scan directory for JSON files
  */
@@ -46,18 +80,8 @@ async function scanDirectory(dir: string, files: Array<{ path: string; name: str
         }
         await scanDirectory(fullPath, files)
       } else if (entry.isFile() && isGtsCandidateFileName(entry.name)) {
-        try {
-          const content = await readFile(fullPath, 'utf-8')
-          const isYaml = entry.name.endsWith('.yaml') || entry.name.endsWith('.yml')
-          const parsed = isYaml ? parseYAML(content) : parseJSONC(content)
-          files.push({
-            path: fullPath,
-            name: basename(fullPath),
-            content: parsed
-          })
-        } catch (error) {
-          // Skip invalid files
-        }
+        const file = await readScanFile(fullPath)
+        if (file) files.push(file)
       }
     }
   } catch (error) {
@@ -68,19 +92,91 @@ async function scanDirectory(dir: string, files: Array<{ path: string; name: str
 }
 
 /**
- * Scan and load GTS entities into the registry
+ * True if a path below the scan folder is one scanDirectory would visit
+ */
+function isScannedPath(scanFolder: string, fullPath: string): boolean {
+  const parts = relative(scanFolder, fullPath).split(sep)
+  if (parts[0] === '..' || parts[0] === '') return false
+  return !parts.some(part => part === 'node_modules' || part.startsWith('.'))
+}
+
+/**
+ * Read the workspace config file of the scanned folder, if any. Scanning skips hidden
+ * directories, so it is read explicitly; unparsable content is passed on as text for the
+ * registry to report.
+ */
+async function readWorkspaceConfigFile(scanFolder: string): Promise<{ path: string; name: string; content: any } | null> {
+  const configPath = join(scanFolder, WORKSPACE_CONFIG_PATH)
+  let content: any
+  try {
+    content = await readFile(configPath, 'utf-8')
+  } catch {
+    return null
+  }
+  try {
+    content = parseJSONC(content)
+  } catch {
+    // Keep the text
+  }
+  return { path: configPath, name: basename(configPath), content }
+}
+
+/**
+ * Short description of an entity for listing responses
+ */
+function toEntitySummary(entity: JsonEntity) {
+  return {
+    id: entity.id,
+    isSchema: entity.isSchema,
+    file: {
+      path: entity.file?.path,
+      name: entity.file?.name
+    }
+  }
+}
+
+/**
+ * Run a registry update after all previously requested ones
+ */
+function enqueueRegistryUpdate<T>(update: () => Promise<T>): Promise<T> {
+  const result = registryUpdates.then(update)
+  registryUpdates = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Scan and load GTS entities into the registry. The registry is replaced once the scan is
+ * validated, so requests served meanwhile still see the previous content.
  */
-export async function loadGtsEntities(scanFolder: string, cfg: GtsConfig, verbosity: 'silent' | 'normal' | 'debug' = 'normal'): Promise<JsonRegistry> {
+export function loadGtsEntities(scanFolder: string, cfg: GtsConfig, verbosity: VerbosityLevel = 'normal'): Promise<JsonRegistry> {
+  return enqueueRegistryUpdate(() => scanGtsEntities(scanFolder, cfg, verbosity))
+}
+
+async function scanGtsEntities(scanFolder: string, cfg: GtsConfig, verbosity: VerbosityLevel): Promise<JsonRegistry> {
   if (verbosity !== 'silent') {
     console.log(`[GTS Scanner] Scanning folder: ${scanFolder}`)
   }
 
   const startTime = Date.now()
   const files = await scanDirectory(scanFolder)
+  const configFile = await readWorkspaceConfigFile(scanFolder)
+  if (configFile) {
+    files.unshift(configFile)
+    if (verbosity !== 'silent') {
+      console.log(`[GTS Scanner] Using workspace config: ${configFile.path}`)
+    }
+  }
 
   // Use registry to process files
-  registry.reset()
-  registry.ingestFiles(files, cfg)
+  const before = captureRegistry()
+  const next = new JsonRegistry()
+  await next.ingestFiles(files, cfg)
+  registry = next
+  registryConfig = cfg
+  registryFolder = scanFolder
+  registryVerbosity = verbosity
+  registryGeneration++
+  publishRegistryChanges(before)
 
   const elapsed = Date.now() - startTime
 
@@ -105,10 +201,105 @@ export async function loadGtsEntities(scanFolder: string, cfg: GtsConfig, verbos
   return registry
 }
 
+/**
+ * Re-read the scanned folder from scratch, with the configuration of the last scan
+ */
+export function rescanGtsEntities(): Promise<JsonRegistry> {
+  return enqueueRegistryUpdate(() => {
+    if (!registryFolder) return Promise.resolve(registry)
+    return scanGtsEntities(registryFolder, registryConfig, registryVerbosity)
+  })
+}
+
+/**
+ * Apply changed paths of the scanned folder to the registry, re-validating only the affected entities.
+ * A changed workspace config can change how every file is read, so it triggers a full rescan.
+ */
+function applyFileChanges(paths: string[]): Promise<void> {
+  return enqueueRegistryUpdate(async () => {
+    const scanFolder = registryFolder
+    if (!scanFolder) return
+    if (paths.includes(join(scanFolder, WORKSPACE_CONFIG_PATH))) {
+      await scanGtsEntities(scanFolder, registryConfig, registryVerbosity)
+      return
+    }
+
+    const before = captureRegistry()
+    let changed = 0
+    for (const fullPath of paths) {
+      if (!isScannedPath(scanFolder, fullPath)) continue
+      const info = await stat(fullPath).catch(() => null)
+      if (info?.isDirectory()) {
+        // A folder moved in: its files are not reported one by one
+        for (const file of await scanDirectory(fullPath)) {
+          if ((await registry.updateFile(file, registryConfig)).changed) changed++
+        }
+      } else if (info?.isFile()) {
+        if (!isGtsCandidateFileName(basename(fullPath))) continue
+        const file = await readScanFile(fullPath)
+        // A touched or re-saved file with the same content changes nothing
+        const update = file ? await registry.updateFile(file, registryConfig) : await registry.removeFile(fullPath)
+        if (update.changed) changed++
+      } else {
+        // Deleted file, or deleted folder with all files below it
+        const known = [...registry.jsonFiles.keys(), ...registry.invalidFiles.keys()]
+        for (const filePath of known.filter(p => p === fullPath || p.startsWith(fullPath + sep))) {
+          if ((await registry.removeFile(filePath)).changed) changed++
+        }
+      }
+    }
+
+    if (changed > 0) {
+      registryGeneration++
+      publishRegistryChanges(before)
+      if (registryVerbosity !== 'silent') {
+        console.log(`[GTS Scanner] Applied ${changed} changed file${changed === 1 ? '' : 's'} (generation ${registryGeneration})`)
+      }
+    }
+  })
+}
+
+/**
+ * Snapshot of the registry before an update, or null when nobody listens to the changes
+ */
+function captureRegistry(): RegistrySnapshot | null {
+  return events.size > 0 ? snapshotRegistry(registry) : null
+}
+
+/**
+ * Tell subscribed clients which entities and validation results an update changed
+ */
+function publishRegistryChanges(before: RegistrySnapshot | null): void {
+  if (!before || events.size === 0) return
+  for (const event of diffRegistrySnapshots(before, snapshotRegistry(registry), registryGeneration)) {
+    events.publish(event)
+  }
+}
+
+/**
+ * Keep the registry in sync with the scanned folder until the returned watcher is closed
+ */
+export function watchGtsEntities(scanFolder: string): FolderWatcher {
+  return watchFolder(scanFolder, (paths) => {
+    applyFileChanges(paths).catch((error) => {
+      console.error('[GTS Scanner] Failed to apply file changes:', error)
+    })
+  })
+}
+
 export async function createApp(dbFile: string, defaultWorkspace: string = 'default'): Promise<Express> {
   const app = express()
   app.use(cors())
+  // Parsed first, so the general JSON parser below skips the body
+  app.post('/validate', express.json({ limit: VALIDATE_BODY_LIMIT }))
   app.use(express.json({ limit: '2mb' }))
+  // Body parsing failures (malformed JSON, a top-level value other than an object or array,
+  // a body over the limit) get a JSON error like every other route, not Express's HTML page
+  app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
+    const status = err?.status ?? err?.statusCode
+    if (!err?.type || !err.expose || typeof status !== 'number' || status < 400 || status >= 500) return next(err)
+    res.status(status).json({ error: status === 413 ? 'too_large' : 'bad_request', message: err.message })
+  })
 
   // Helper: format timezone offset like +0000
   function formatTzOffset(d: Date): string {
@@ -205,6 +396,19 @@ export async function createApp(dbFile: string, defaultWorkspace: string = 'defa
     return row?.version ?? null
   }
 
+  // Let other clients showing this layout know it changed; the saving client recognizes its own ID
+  function publishLayoutSaved(req: express.Request, snapshot: LayoutSnapshot) {
+    const clientId = req.get(GTS_CLIENT_ID_HEADER)
+    events.publish({
+      type: 'layout-saved',
+      workspace: snapshot.target.workspaceName || defaultWorkspace,
+      id: snapshot.target.id,
+      layoutId: snapshot.layoutId,
+      version: snapshot.version,
+      clientId: clientId || undefined
+    })
+  }
+
   function toSnapshot(layoutId: string, version: string, row: any): LayoutSnapshot {
     const ws = sql.prepare(`SELECT name FROM workspaces WHERE id = ?`).get(row.workspace_id) as any
     const workspaceName = ws?.['name'] || defaultWorkspace
@@ -223,7 +427,63 @@ export async function createApp(dbFile: string, defaultWorkspace: string = 'defa
   // Health
   app.get('/health', (_req, res) => {
     const totalEntities = registry.jsonObjs.size + registry.jsonSchemas.size
-    res.json({ status: 'ok', db: 'ok', backendVersion: '0.2.0', gtsEntities: totalEntities })
+    res.json({ status: 'ok', db: 'ok', backendVersion: '0.2.0', gtsEntities: totalEntities, registryGeneration })
+  })
+
+  // Re-read the scanned folder, e.g. after changes the file watcher cannot see (network drives, watching disabled)
+  app.post('/admin/rescan', async (_req, res) => {
+    if (!registryFolder) {
+      return res.status(409).json({ error: 'conflict', message: 'The server was started without a scan folder' })
+    }
+    try {
+      const startTime = Date.now()
+      await rescanGtsEntities()
+      res.json({
+        registryGeneration,
+        gtsEntities: registry.jsonObjs.size + registry.jsonSchemas.size,
+        elapsedMs: Date.now() - startTime
+      })
+    } catch (error) {
+      console.error('[GTS API] Rescan failed:', error)
+      res.status(500).json({ error: 'internal_error', message: error instanceof Error ? error.message : String(error) })
+    }
+  })
+
+  // Stream registry and layout changes as Server-Sent Events
+  app.get('/events', (_req, res) => {
+    events.subscribe(res)
+  })
+
+  // Search and list GTS entities, one page at a time
+  app.get('/gts', (req, res) => {
+    const param = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined
+    const kind = param('kind')
+    const status = param('status')
+    const limit = param('limit')
+
+    if (kind !== undefined && kind !== 'schema' && kind !== 'instance') {
+      return res.status(400).json({ error: 'bad_request', message: `kind must be 'schema' or 'instance'` })
+    }
+    if (status !== undefined && status !== 'valid' && status !== 'invalid') {
+      return res.status(400).json({ error: 'bad_request', message: `status must be 'valid' or 'invalid'` })
+    }
+    if (limit !== undefined && !(parseInt(limit, 10) > 0)) {
+      return res.status(400).json({ error: 'bad_request', message: 'limit must be a positive number' })
+    }
+
+    const type = param('type')
+    res.json(searchEntities(registry, {
+      kind,
+      vendor: param('vendor'),
+      package: param('package'),
+      namespace: param('namespace'),
+      typeId: type ? decodeGtsId(type) : undefined,
+      includeDerived: param('includeDerived') !== 'false',
+      status,
+      text: param('q'),
+      cursor: param('cursor'),
+      limit: limit !== undefined ? parseInt(limit, 10) : undefined
+    }))
   })
 
   // Get GTS entity by ID
@@ -253,6 +513,87 @@ export async function createApp(dbFile: string, defaultWorkspace: string = 'defa
     })
   })
 
+  // Entities referencing a GTS entity (impact analysis)
+  app.get('/gts/:name/referrers', (req, res) => {
+    const { name } = req.params
+    const entityId = name.startsWith('gts.') ? name : `gts.${name}`
+    const transitive = req.query.transitive === 'true'
+
+    // IDs that are only referenced (absent from the registry) still have referrers
+    const known = registry.jsonSchemas.has(entityId) || registry.jsonObjs.has(entityId) ||
+      registry.absentGtsEntities.has(entityId) || registry.resolveSchemaId(entityId) !== undefined
+    if (!known) {
+      return res.status(404).json({ error: 'not_found', message: `GTS entity '${entityId}' not found` })
+    }
+
+    const referrers = transitive ? registry.getTransitiveReferrers(entityId) : registry.getReferrers(entityId)
+    res.json({ id: entityId, transitive, referrers: referrers.map(toEntitySummary) })
+  })
+
+  // Instances of a GTS type, including instances of derived types unless includeDerived=false
+  app.get('/gts/:name/instances', (req, res) => {
+    const { name } = req.params
+    const typeId = name.startsWith('gts.') ? name : `gts.${name}`
+    const includeDerived = req.query.includeDerived !== 'false'
+
+    if (!registry.jsonSchemas.has(typeId) && !registry.resolveSchemaId(typeId)) {
+      return res.status(404).json({ error: 'not_found', message: `GTS type '${typeId}' not found` })
+    }
+
+    const instances = registry.getInstancesOf(typeId, includeDerived)
+    res.json({ id: typeId, includeDerived, instances: instances.map(toEntitySummary) })
+  })
+
+  // Serve schemas as a registry for $ref resolution by external JSON Schema tools.
+  // Accepts plain, gts:// and URL-encoded IDs; a major-only ID serves the latest minor version.
+  app.get('/schemas/:gtsId', (req, res) => {
+    const requestedId = normalizeGtsId(decodeGtsId(req.params.gtsId))
+    const schemaId = registry.resolveSchemaId(requestedId)
+    if (schemaId === undefined) {
+      return res.status(404).json({ error: 'not_found', message: `GTS schema '${requestedId}' not found` })
+    }
+    const bundle = req.query.bundle === 'true'
+    const content = bundle ? registry.getBundledSchema(schemaId) : registry.jsonSchemas.get(schemaId)!.content
+
+    // Express answers 304 when If-None-Match matches the ETag
+    const body = JSON.stringify(content, null, 2)
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`
+    res.set({
+      'Content-Type': 'application/schema+json; charset=utf-8',
+      'ETag': etag,
+      'Cache-Control': 'no-cache'
+    })
+    if (schemaId !== requestedId) {
+      res.set('Content-Location', `/schemas/${encodeURIComponent(schemaId)}${bundle ? '?bundle=true' : ''}`)
+    }
+    res.send(body)
+  })
+
+  // Validate a payload, or an array of payloads, against the registry without adding them to it
+  app.post('/validate', async (req, res) => {
+    if (!req.is('application/json')) {
+      return res.status(400).json({ error: 'bad_request', message: 'Expected a JSON body' })
+    }
+    const items: any[] = Array.isArray(req.body) ? req.body : [req.body]
+    if (items.length === 0) {
+      return res.status(400).json({ error: 'bad_request', message: 'No payloads to validate' })
+    }
+    if (items.length > MAX_VALIDATE_BATCH) {
+      return res.status(413).json({ error: 'too_large', message: `At most ${MAX_VALIDATE_BATCH} payloads per request` })
+    }
+
+    try {
+      const results = []
+      for (const item of items) {
+        results.push(await registry.validatePayload(item, registryConfig))
+      }
+      res.json({ valid: results.every(r => r.valid), results })
+    } catch (error) {
+      console.error('[GTS API] Validation failed:', error)
+      res.status(500).json({ error: 'internal_error', message: error instanceof Error ? error.message : String(error) })
+    }
+  })
+
   // Settings (global only for now)
   app.get('/settings', (_req, res) => {
     const row = sql.prepare(`SELECT data FROM settings WHERE scope = 'global' LIMIT 1`).get() as any
@@ -347,7 +688,9 @@ export async function createApp(dbFile: string, defaultWorkspace: string = 'defa
       )
 
     const row = sql.prepare(`SELECT v.*, l.workspace_id, l.id, l.target_filename, l.target_schema_id FROM layout_versions v JOIN layouts l ON l.id = v.layout_id WHERE v.layout_id = ? AND v.version = ?`).get(anchor.id, next)
-    res.status(201).json(toSnapshot(anchor.id, next, row))
+    const snapshot = toSnapshot(anchor.id, next, row)
+    publishLayoutSaved(req, snapshot)
+    res.status(201).json(snapshot)
   })
 
   // List versions for a target
@@ -397,7 +740,9 @@ export async function createApp(dbFile: string, defaultWorkspace: string = 'defa
     sql.prepare(`INSERT INTO layout_versions (layout_id, version, canvas, nodes, edges, meta, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`)
       .run(layoutId, next, row.canvas, row.nodes, row.edges, row.meta, nowIso())
     const joined = sql.prepare(`SELECT v.*, l.workspace_id, l.id, l.target_filename, l.target_schema_id FROM layout_versions v JOIN layouts l ON l.id = v.layout_id WHERE v.layout_id = ? AND v.version = ?`).get(layoutId, next)
-    res.status(201).json(toSnapshot(layoutId, next, joined))
+    const snapshot = toSnapshot(layoutId, next, joined)
+    publishLayoutSaved(req, snapshot)
+    res.status(201).json(snapshot)
   })
 
   return app
@@ -413,9 +758,13 @@ export async function startServer(config: ServerConfig | ServerOptions = {}): Pr
   const gtsConfig = isServerConfig ? getGtsConfig(config.gts) : DEFAULT_GTS_CONFIG
   const defaultWorkspace = isServerConfig ? config.defaultWorkspace : 'default'
 
-  // Scan and load GTS entities
+  // Scan and load GTS entities, then keep them in sync with the folder
+  let watcher: FolderWatcher | null = null
   if (isServerConfig) {
     await loadGtsEntities(scanFolder, gtsConfig, verbosity)
+    if (config.watch) {
+      watcher = watchGtsEntities(scanFolder)
+    }
   }
 
   const app = await createApp(dbFile, defaultWorkspace)
@@ -432,6 +781,8 @@ export async function startServer(config: ServerConfig | ServerOptions = {}): Pr
           port,
           app,
           stop: async () => {
+            watcher?.close()
+            events.close()
             return new Promise((resolveStop, rejectStop) => {
               if (server) {
                 server.close((err) => {
@@ -0,0 +1,41 @@
+import { watch, type FSWatcher } from 'node:fs'
+import { join } from 'node:path'
+
+export interface FolderWatcher {
+  close: () => void
+}
+
+/**
+ * Watch a folder recursively and report changed paths in batches. Editors often write a file
+ * several times in a row, so changes are collected until the folder has been quiet for delayMs.
+ *
+ * @param folder - Folder to watch
+ * @param onChange - Called with the absolute paths changed (created, modified or deleted) since the last call
+ * @param delayMs - Quiet period before a batch is reported
+ */
+export function watchFolder(folder: string, onChange: (paths: string[]) => void, delayMs: number = 300): FolderWatcher {
+  const pending = new Set<string>()
+  let timer: NodeJS.Timeout | null = null
+
+  const watcher: FSWatcher = watch(folder, { recursive: true }, (_event, fileName) => {
+    if (!fileName) return
+    pending.add(join(folder, fileName.toString()))
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = null
+      const paths = Array.from(pending)
+      pending.clear()
+      onChange(paths)
+    }, delayMs)
+  })
+  watcher.on('error', (error) => {
+    console.warn(`[GTS Watcher] Watching ${folder} failed:`, error)
+  })
+
+  return {
+    close: () => {
+      if (timer) clearTimeout(timer)
+      watcher.close()
+    }
+  }
+}
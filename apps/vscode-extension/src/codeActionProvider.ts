@@ -0,0 +1,259 @@
+import * as vscode from 'vscode'
+import * as jsonc from 'jsonc-parser'
+import { JsonRegistry, JsonEntity, JsonObj, GTS_REGEX, ValidationError, findSimilarEntityIds, repairGtsIdVersions, normalizeGtsId, decodeGtsId, createSourceMap, pointerSegments } from '@gts/shared'
+import { getScanRegistry } from './scanStore'
+import { resolveSchemaRef, instanceSchema, schemaAtPath } from './schemaLookup'
+import { INVALID_GTS_ID_CODE, GTS_ENTITY_NOT_FOUND_CODE } from './linkProvider'
+import { validationErrorRange } from './validation'
+import { entityPointer } from './helpers'
+
+// Maximum number of "replace with" suggestions offered for an unknown ID
+const MAX_ID_SUGGESTIONS = 3
+// How deep nested required properties are filled in when adding a missing object property
+const MAX_PLACEHOLDER_DEPTH = 3
+
+/**
+ * A string literal in the document with its value and the range of its content (without quotes)
+ */
+interface StringLiteral {
+  value: string
+  range: vscode.Range
+}
+
+/**
+ * Quick fixes for GTS diagnostics: unknown or malformed GTS IDs,
+ * missing required properties and disallowed additional properties.
+ */
+export class GtsCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    const diagnostics = context.diagnostics.filter(d => d.source === 'gts' || d.source === 'GTS')
+    if (diagnostics.length === 0) return []
+
+    const registry = await getScanRegistry()
+    const actions: vscode.CodeAction[] = []
+
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.code === GTS_ENTITY_NOT_FOUND_CODE) {
+        const literal = this.stringLiteralAt(document, diagnostic.range.start)
+        if (literal) actions.push(...this.replaceWithSimilarId(document, diagnostic, registry, literal))
+        continue
+      }
+      if (diagnostic.code === INVALID_GTS_ID_CODE) {
+        const action = this.fixVersionAction(document, diagnostic)
+        if (action) actions.push(action)
+        continue
+      }
+
+      const match = this.findValidationError(registry, document, diagnostic)
+      if (!match) continue
+      const { entity, error } = match
+      if (error.keyword === 'required' && typeof error.params?.missingProperty === 'string') {
+        const action = this.addRequiredPropertyAction(document, diagnostic, registry, entity, error)
+        if (action) actions.push(action)
+      } else if (error.keyword === 'additionalProperties' && typeof error.params?.additionalProperty === 'string') {
+        const action = this.removePropertyAction(document, diagnostic, entity, error)
+        if (action) actions.push(action)
+      } else if (typeof error.params?.gtsId === 'string' || (error.keyword === 'schema' && typeof error.params?.schemaId === 'string')) {
+        const missingId = normalizeGtsId(error.params.gtsId ?? error.params.schemaId)
+        const literal = this.findStringLiteral(document, missingId, diagnostic.range.start.line)
+        if (literal) actions.push(...this.replaceWithSimilarId(document, diagnostic, registry, literal))
+      }
+    }
+
+    // The link provider and the validator can report the same unknown ID
+    const seen = new Set<string>()
+    return actions.filter(a => !seen.has(a.title) && !!seen.add(a.title))
+  }
+
+  /**
+   * Offer the closest known IDs for an ID that does not exist in the registry
+   */
+  private replaceWithSimilarId(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, registry: JsonRegistry, literal: StringLiteral): vscode.CodeAction[] {
+    const allEntityIds = [
+      ...Array.from(registry.jsonSchemas.keys()),
+      ...Array.from(registry.jsonObjs.keys())
+    ].filter(id => GTS_REGEX.test(id))
+
+    // Keep the gts:// prefix if the reference uses one
+    const prefix = literal.value.startsWith('gts://') ? 'gts://' : ''
+    const suggestions = findSimilarEntityIds(normalizeGtsId(literal.value), allEntityIds, MAX_ID_SUGGESTIONS)
+    return suggestions.map((suggestion, i) => {
+      const action = new vscode.CodeAction(`Replace with ${suggestion}`, vscode.CodeActionKind.QuickFix)
+      action.diagnostics = [diagnostic]
+      action.isPreferred = i === 0
+      action.edit = new vscode.WorkspaceEdit()
+      action.edit.replace(document.uri, literal.range, prefix + suggestion)
+      return action
+    })
+  }
+
+  /**
+   * Repair a malformed version segment, e.g. "v01" or "V1" -> "v1"
+   */
+  private fixVersionAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | null {
+    const literal = this.stringLiteralAt(document, diagnostic.range.start)
+    const repaired = literal ? repairGtsIdVersions(literal.value) : undefined
+    if (!literal || !repaired) return null
+
+    const action = new vscode.CodeAction(`Fix version: ${repaired}`, vscode.CodeActionKind.QuickFix)
+    action.diagnostics = [diagnostic]
+    action.isPreferred = true
+    action.edit = new vscode.WorkspaceEdit()
+    action.edit.replace(document.uri, literal.range, repaired)
+    return action
+  }
+
+  /**
+   * Insert a missing required property with a value matching its schema
+   */
+  private addRequiredPropertyAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, registry: JsonRegistry, entity: JsonEntity, error: ValidationError): vscode.CodeAction | null {
+    if (!(entity instanceof JsonObj)) return null
+    const name: string = error.params.missingProperty
+    const segments = pointerSegments(error.instancePath)
+    const root = instanceSchema(registry, entity)
+    const parent = root ? schemaAtPath(registry, root, segments) : undefined
+    const value = this.placeholderFor(registry, root, parent?.properties?.[name], 0)
+
+    const edit = this.modifyEdit(document, entity, [...segments, name], value)
+    if (!edit) return null
+    const action = new vscode.CodeAction(`Add required property '${name}'`, vscode.CodeActionKind.QuickFix)
+    action.diagnostics = [diagnostic]
+    action.isPreferred = true
+    action.edit = edit
+    return action
+  }
+
+  /**
+   * Remove a property the schema does not allow
+   */
+  private removePropertyAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, entity: JsonEntity, error: ValidationError): vscode.CodeAction | null {
+    const name: string = error.params.additionalProperty
+    const edit = this.modifyEdit(document, entity, [...pointerSegments(error.instancePath), name], undefined)
+    if (!edit) return null
+    const action = new vscode.CodeAction(`Remove property '${name}'`, vscode.CodeActionKind.QuickFix)
+    action.diagnostics = [diagnostic]
+    action.edit = edit
+    return action
+  }
+
+  /**
+   * Find the validation error behind a diagnostic published for this document. Entities of
+   * array files and multi-document YAML often share a message, so the range must match too.
+   */
+  private findValidationError(registry: JsonRegistry, document: vscode.TextDocument, diagnostic: vscode.Diagnostic): { entity: JsonEntity; error: ValidationError } | null {
+    const filePath = document.uri.fsPath
+    const sourceMap = createSourceMap(document.getText(), document.fileName)
+    const entities: JsonEntity[] = [...registry.jsonSchemas.values(), ...registry.jsonObjs.values()]
+    for (const entity of entities) {
+      if (entity.file?.path !== filePath) continue
+      const error = entity.validation?.errors.find(e =>
+        e.message === diagnostic.message &&
+        validationErrorRange(e, document, sourceMap, entityPointer(entity)).isEqual(diagnostic.range)
+      )
+      if (error) return { entity, error }
+    }
+    return null
+  }
+
+  /**
+   * Build an edit setting (or, with undefined, removing) the value at a path within an entity
+   */
+  private modifyEdit(document: vscode.TextDocument, entity: JsonEntity, segments: string[], value: any): vscode.WorkspaceEdit | null {
+    const text = document.getText()
+    const root = jsonc.parseTree(text, [], { allowTrailingComma: true })
+    if (!root) return null
+
+    // Entities from a multi-entity file live at their index in the top-level array
+    const fullSegments = entity.listSequence !== undefined ? [String(entity.listSequence), ...segments] : segments
+    const path: jsonc.JSONPath = []
+    let node: jsonc.Node | undefined = root
+    for (const segment of fullSegments) {
+      const key: string | number = node?.type === 'array' ? Number(segment) : segment
+      path.push(key)
+      node = node ? jsonc.findNodeAtLocation(node, [key]) : undefined
+    }
+
+    const editor = vscode.window.visibleTextEditors.find(e => e.document === document)
+    const formattingOptions: jsonc.FormattingOptions = {
+      insertSpaces: editor?.options.insertSpaces !== false,
+      tabSize: typeof editor?.options.tabSize === 'number' ? editor.options.tabSize : 2
+    }
+    const edits = jsonc.modify(text, path, value, { formattingOptions })
+    if (edits.length === 0) return null
+
+    const workspaceEdit = new vscode.WorkspaceEdit()
+    for (const e of edits) {
+      workspaceEdit.replace(document.uri, new vscode.Range(document.positionAt(e.offset), document.positionAt(e.offset + e.length)), e.content)
+    }
+    return workspaceEdit
+  }
+
+  /**
+   * A value valid for the schema where possible: its default, const or first enum value,
+   * otherwise an empty value of its type (objects get their required properties filled in)
+   */
+  private placeholderFor(registry: JsonRegistry, root: any, schema: any, depth: number): any {
+    schema = resolveSchemaRef(registry, root, schema)
+    if (!schema || typeof schema !== 'object') return null
+    if (schema.default !== undefined) return schema.default
+    if (schema.const !== undefined) return schema.const
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0]
+
+    const type = Array.isArray(schema.type) ? schema.type[0] : schema.type
+    switch (type) {
+      case 'string': return ''
+      case 'number':
+      case 'integer': return typeof schema.minimum === 'number' ? schema.minimum : 0
+      case 'boolean': return false
+      case 'array': return []
+      case 'null': return null
+    }
+    if (type === 'object' || schema.properties) {
+      const value: Record<string, any> = {}
+      const required: string[] = Array.isArray(schema.required) ? schema.required : []
+      if (depth < MAX_PLACEHOLDER_DEPTH) {
+        for (const name of required) {
+          value[name] = this.placeholderFor(registry, root, schema.properties?.[name], depth + 1)
+        }
+      }
+      return value
+    }
+    return null
+  }
+
+  /**
+   * The string literal containing a position
+   */
+  private stringLiteralAt(document: vscode.TextDocument, position: vscode.Position): StringLiteral | null {
+    const root = jsonc.parseTree(document.getText(), [], { allowTrailingComma: true })
+    const node = root ? jsonc.findNodeAtOffset(root, document.offsetAt(position)) : undefined
+    if (!node || node.type !== 'string') return null
+    return {
+      value: node.value,
+      range: new vscode.Range(document.positionAt(node.offset + 1), document.positionAt(node.offset + node.length - 1))
+    }
+  }
+
+  /**
+   * The string value equal to a GTS ID that is closest to a line of the document
+   */
+  private findStringLiteral(document: vscode.TextDocument, id: string, nearLine: number): StringLiteral | null {
+    let best: StringLiteral | null = null
+    jsonc.visit(document.getText(), {
+      onLiteralValue: (value: any, offset: number, length: number) => {
+        if (typeof value !== 'string' || normalizeGtsId(decodeGtsId(value)) !== id) return
+        const range = new vscode.Range(document.positionAt(offset + 1), document.positionAt(offset + length - 1))
+        if (!best || Math.abs(range.start.line - nearLine) < Math.abs(best.range.start.line - nearLine)) {
+          best = { value, range }
+        }
+      }
+    }, { allowTrailingComma: true })
+    return best
+  }
+}
@@ -0,0 +1,233 @@
+import * as vscode from 'vscode'
+import * as jsonc from 'jsonc-parser'
+import { JsonRegistry, JsonObj, GTS_REGEX, GTS_TYPE_REGEX, createEntity, normalizeGtsId, tryParseGtsId, isSameOrDerivedType } from '@gts/shared'
+import { getScanRegistry } from './scanStore'
+import { instanceSchema, schemaAtPath, resolveSchemaRef } from './schemaLookup'
+
+/**
+ * The instance being edited and the cursor location relative to it
+ */
+interface InstanceLocation {
+  /** Parsed (possibly partial) content of the instance */
+  content: any
+  /** Path from the instance root to the cursor */
+  path: jsonc.JSONPath
+  location: jsonc.Location
+}
+
+/**
+ * Navigate parsed JSON content by a path
+ */
+function valueAtPath(content: any, path: jsonc.JSONPath): any {
+  let value = content
+  for (const segment of path) {
+    if (!value || typeof value !== 'object') return undefined
+    value = value[segment]
+  }
+  return value
+}
+
+/**
+ * Type of a schema node for display, e.g. "string" or "string | null"
+ */
+function schemaTypeLabel(schema: any): string {
+  if (Array.isArray(schema?.type)) return schema.type.join(' | ')
+  if (typeof schema?.type === 'string') return schema.type
+  if (schema?.properties) return 'object'
+  return 'any'
+}
+
+/**
+ * Schema-aware completion for instance files: property names from the effective schema
+ * of the instance's type, enum/const values, and GTS IDs for x-gts-ref or GTS-pattern fields.
+ */
+export class GtsCompletionProvider implements vscode.CompletionItemProvider {
+  static readonly triggerCharacters = ['"']
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[]> {
+    const text = document.getText()
+    const offset = document.offsetAt(position)
+    const target = this.locateInstance(text, offset)
+    if (!target) return []
+
+    const registry = await getScanRegistry()
+    const entity = createEntity({ content: target.content, cfg: registry.resolveGtsConfig() })
+    if (!(entity instanceof JsonObj) || !entity.schemaId) return []
+
+    const root = instanceSchema(registry, entity)
+    if (!root) return []
+
+    const { location, path } = target
+    if (location.isAtPropertyKey) {
+      const objectSchema = schemaAtPath(registry, root, path.slice(0, -1))
+      const existing = valueAtPath(target.content, path.slice(0, -1))
+      return this.propertyItems(document, text, offset, location, registry, root, objectSchema, existing)
+    }
+
+    const valueSchema = schemaAtPath(registry, root, path)
+    if (!valueSchema) return []
+    const range = this.valueRange(document, location, position)
+    return [
+      ...this.enumItems(valueSchema, range),
+      ...this.gtsIdItems(registry, valueSchema, range)
+    ]
+  }
+
+  /**
+   * Find the instance under the cursor; in a multi-entity file that is the array item containing it
+   */
+  private locateInstance(text: string, offset: number): InstanceLocation | null {
+    const location = jsonc.getLocation(text, offset)
+    const content = jsonc.parse(text, [], { allowTrailingComma: true })
+    if (!content || typeof content !== 'object') return null
+
+    if (Array.isArray(content)) {
+      const index = location.path[0]
+      if (typeof index !== 'number' || !content[index] || typeof content[index] !== 'object') return null
+      return { content: content[index], path: location.path.slice(1), location }
+    }
+    return { content, path: location.path, location }
+  }
+
+  /**
+   * Property names of the object schema that the object does not have yet, required ones first
+   */
+  private propertyItems(
+    document: vscode.TextDocument,
+    text: string,
+    offset: number,
+    location: jsonc.Location,
+    registry: JsonRegistry,
+    root: any,
+    objectSchema: any,
+    existing: any
+  ): vscode.CompletionItem[] {
+    const properties = objectSchema?.properties
+    if (!properties || typeof properties !== 'object') return []
+    const required: string[] = Array.isArray(objectSchema.required) ? objectSchema.required : []
+    const typedKey = location.path[location.path.length - 1]
+
+    // Replace the key being typed including its quotes; keep an existing ": value"
+    const previous = location.previousNode
+    const keyNode = previous && (previous.type === 'property' || previous.type === 'string') ? previous : undefined
+    const range = keyNode
+      ? new vscode.Range(document.positionAt(keyNode.offset), document.positionAt(Math.max(offset, keyNode.offset + keyNode.length)))
+      : undefined
+    const hasValue = keyNode ? /^\s*:/.test(text.substring(keyNode.offset + keyNode.length)) : false
+
+    const items: vscode.CompletionItem[] = []
+    for (const [name, rawSchema] of Object.entries<any>(properties)) {
+      if (existing && typeof existing === 'object' && name in existing && name !== typedKey) continue
+      const schema = resolveSchemaRef(registry, root, rawSchema)
+      const isRequired = required.includes(name)
+
+      const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Property)
+      item.detail = `${schemaTypeLabel(schema)}${isRequired ? ' (required)' : ''}`
+      if (schema?.description) item.documentation = new vscode.MarkdownString(schema.description)
+      item.sortText = `${isRequired ? '0' : '1'}${name}`
+      item.filterText = `"${name}"`
+      const snippet = new vscode.SnippetString().appendText(`"${name}"`)
+      if (!hasValue) {
+        snippet.appendText(': ')
+        this.appendValueSnippet(snippet, schema)
+      }
+      item.insertText = snippet
+      if (range) item.range = range
+      items.push(item)
+    }
+    return items
+  }
+
+  /**
+   * Placeholder value for a property by its schema: const as-is, otherwise an empty value of its type
+   */
+  private appendValueSnippet(snippet: vscode.SnippetString, schema: any): void {
+    if (schema?.const !== undefined) {
+      snippet.appendText(JSON.stringify(schema.const))
+      return
+    }
+    switch (Array.isArray(schema?.type) ? schema.type[0] : schema?.type) {
+      case 'string':
+        snippet.appendText('"').appendTabstop(1).appendText('"')
+        break
+      case 'number':
+      case 'integer':
+        snippet.appendPlaceholder('0')
+        break
+      case 'boolean':
+        snippet.appendChoice(['true', 'false'])
+        break
+      case 'array':
+        snippet.appendText('[').appendTabstop(1).appendText(']')
+        break
+      case 'object':
+        snippet.appendText('{').appendTabstop(1).appendText('}')
+        break
+      default:
+        snippet.appendTabstop(1)
+    }
+  }
+
+  /**
+   * Range of the value being typed, if the cursor is inside a literal
+   */
+  private valueRange(document: vscode.TextDocument, location: jsonc.Location, position: vscode.Position): vscode.Range {
+    const node = location.previousNode
+    if (node && (node.type === 'string' || node.type === 'number' || node.type === 'boolean' || node.type === 'null')) {
+      return new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length))
+    }
+    return new vscode.Range(position, position)
+  }
+
+  private enumItems(schema: any, range: vscode.Range): vscode.CompletionItem[] {
+    const values: any[] = schema.const !== undefined ? [schema.const] : Array.isArray(schema.enum) ? schema.enum : []
+    return values.map((value, i) => {
+      const literal = JSON.stringify(value)
+      const item = new vscode.CompletionItem(literal, vscode.CompletionItemKind.EnumMember)
+      item.insertText = literal
+      item.filterText = literal
+      item.sortText = String(i).padStart(4, '0')
+      item.range = range
+      return item
+    })
+  }
+
+  /**
+   * GTS IDs for fields declared with x-gts-ref or a GTS ID pattern, restricted to the declared base type
+   */
+  private gtsIdItems(registry: JsonRegistry, schema: any, range: vscode.Range): vscode.CompletionItem[] {
+    const gtsRef = schema['x-gts-ref']
+    const pattern = typeof schema.pattern === 'string' && schema.pattern.includes('gts') ? schema.pattern : undefined
+    if (gtsRef === undefined && !pattern) return []
+
+    let matches = (_id: string) => true
+    if (typeof gtsRef === 'string' && GTS_TYPE_REGEX.test(normalizeGtsId(gtsRef))) {
+      const baseTypeId = normalizeGtsId(gtsRef)
+      matches = (id) => isSameOrDerivedType(tryParseGtsId(id)?.typeId ?? '', baseTypeId)
+    } else if (pattern) {
+      try {
+        const regex = new RegExp(pattern)
+        matches = (id) => regex.test(id)
+      } catch {
+        // Unsupported pattern syntax: offer every ID
+      }
+    }
+
+    const entities = [...registry.jsonSchemas.values(), ...registry.jsonObjs.values()]
+    return entities
+      .filter(entity => GTS_REGEX.test(entity.id) && matches(entity.id))
+      .map(entity => {
+        const literal = JSON.stringify(entity.id)
+        const item = new vscode.CompletionItem(entity.id, entity.isSchema ? vscode.CompletionItemKind.Class : vscode.CompletionItemKind.Reference)
+        item.detail = entity.isSchema ? 'Schema' : 'Instance'
+        if (entity.description) item.documentation = new vscode.MarkdownString(entity.description)
+        item.insertText = literal
+        item.filterText = literal
+        item.range = range
+        return item
+      })
+  }
+}
@@ -1,17 +1,24 @@
 import * as vscode from 'vscode'
 import * as path from 'path'
-import { parseJSONC, JsonRegistry, DEFAULT_GTS_CONFIG } from '@gts/shared'
-import { setLastScanFiles } from './scanStore'
+import * as os from 'os'
+import { createSourceMap, parseJSONC, parseWorkspaceConfig, WORKSPACE_CONFIG_PATH } from '@gts/shared'
+import type { JsonRegistry, JsonEntity, JsonFileInput } from '@gts/shared'
+import { setLastScanFiles, getLastScanFiles, getScanRegistry, updateScanFile, removeScanFile, type ScanUpdate } from './scanStore'
 import { RepoLayoutStorage } from './storage'
-import { initValidation, validateOpenDocument } from './validation'
-import { isGtsCandidateFile } from './helpers'
+import { initValidation, refreshOpenDocumentDiagnostics, validateOpenDocuments } from './validation'
+import { isGtsCandidateFile, isScannedFilePath, isWorkspaceGtsFile, toScanFile } from './helpers'
 import { GtsLinkProvider } from './linkProvider'
+import { GtsCodeActionProvider } from './codeActionProvider'
+import { GtsCompletionProvider } from './completionProvider'
+import { GtsNavigationProvider } from './navigationProvider'
+import { GtsWorkspaceTreeProvider, GtsTreeNode } from './workspaceTree'
 import type { LayoutSaveRequest, LayoutTarget, LayoutSnapshot } from '@gts/layout-storage'
 
 let viewerPanel: vscode.WebviewPanel | null = null
 let layoutStorage: RepoLayoutStorage | null = null
 let hasPerformedInitialScan: boolean = false // Track if initial scan with default file has been done
 let gtsLinkProvider: GtsLinkProvider | null = null
+let gtsTreeProvider: GtsWorkspaceTreeProvider | null = null
 
 function getNonce(): string {
   let text = ''
@@ -22,17 +29,113 @@ function getNonce(): string {
   return text
 }
 
+function activeGtsFilePath(): string | null {
+  const activeDoc = vscode.window.activeTextEditor?.document
+  return (activeDoc && isGtsCandidateFile(activeDoc)) ? activeDoc.uri.fsPath : null
+}
+
+/**
+ * Deliver the current registry state to the link provider, the viewer and open documents
+ */
+async function refreshAfterRegistryChange(registry: JsonRegistry, selectedFilePath: string | null, refreshFilePath?: string | null) {
+  const hasViewer = viewerPanel !== null
+
+  // Send scan result with default file path so the webview can compute initial selection
+  if (hasViewer) {
+    viewerPanel!.webview.postMessage({ type: 'gts-scan-result', detail: { files: getLastScanFiles(), defaultFilePath: selectedFilePath } })
+  }
+
+  // Refresh the link provider with the latest registry
+  if (gtsLinkProvider) {
+    try {
+      await gtsLinkProvider.refresh()
+    } catch (e) {
+      console.error('[GTS] Error refreshing link provider:', e)
+    }
+  }
+
+  gtsTreeProvider?.refresh(registry)
+
+  if (hasViewer) {
+    try {
+      const entities = [...registry.jsonObjs.values(), ...registry.jsonSchemas.values()]
+      viewerPanel!.webview.postMessage({ type: 'gts-validation-result', detail: validationResultDetail(registry, entities) })
+    } catch (ve: any) {
+      viewerPanel!.webview.postMessage({ type: 'gts-validation-error', detail: { error: ve?.message || String(ve) } })
+    }
+  }
+
+  // After scan + validation updates are delivered, instruct the webview to refresh diagrams for the updated file
+  if (hasViewer && refreshFilePath) {
+    try {
+      viewerPanel!.webview.postMessage({ type: 'gts-refresh-layout', detail: { filePath: refreshFilePath } })
+    } catch {}
+  }
+
+  // Re-validate all open documents now that we have the full registry
+  console.log('[GTS] Re-validating all open documents...')
+  await validateOpenDocuments()
+}
+
+/**
+ * Validation results of the given entities and of the invalid files, as sent to the webview
+ */
+function validationResultDetail(registry: JsonRegistry, entities: JsonEntity[]) {
+  const objs = entities.filter(e => !e.isSchema).map(o => ({ id: o.id, listSequence: o.listSequence, filePath: o.file?.path, schemaId: o.schemaId, validation: o.validation }))
+  const schemas = entities.filter(e => e.isSchema).map(s => ({ id: s.id, filePath: s.file?.path, validation: s.validation }))
+  const invalidFiles = Array.from(registry.invalidFiles.values()).map(f => ({ path: f.path, name: f.name, validation: f.validation }))
+  return { objs, schemas, invalidFiles }
+}
+
+/**
+ * Deliver a single file change to the link provider, the viewer and the open documents it affects.
+ * The viewer gets just the file and the re-validated entities; a change that re-ingested the
+ * registry is delivered in full.
+ *
+ * @param file - The new file content, or null if the file was removed
+ */
+async function refreshAfterFileChange(update: ScanUpdate, filePath: string, file: JsonFileInput | null) {
+  const { registry, changed, affected } = update
+  if (!changed) return
+  if (!affected) {
+    await refreshAfterRegistryChange(registry, activeGtsFilePath(), file ? filePath : null)
+    return
+  }
+
+  if (viewerPanel) {
+    const detail = validationResultDetail(registry, affected)
+    viewerPanel.webview.postMessage(file
+      ? { type: 'gts-file-changed', detail: { ...detail, file } }
+      : { type: 'gts-file-removed', detail: { ...detail, filePath } })
+    if (file) {
+      viewerPanel.webview.postMessage({ type: 'gts-refresh-layout', detail: { filePath } })
+    }
+  }
+
+  if (gtsLinkProvider) {
+    try {
+      await gtsLinkProvider.refresh()
+    } catch (e) {
+      console.error('[GTS] Error refreshing link provider:', e)
+    }
+  }
+
+  gtsTreeProvider?.refresh(registry)
+
+  const filePaths = new Set<string>([filePath])
+  for (const entity of affected) {
+    if (entity.file) filePaths.add(entity.file.path)
+  }
+  refreshOpenDocumentDiagnostics(registry, filePaths)
+}
+
 async function scanAndPost(includeGlob: string = '**/*.{json,jsonc,gts,yaml,yml}', isInitialScan: boolean = false, refreshFilePath?: string | null) {
   const hasViewer = viewerPanel !== null
 
   try {
-    let selectedFilePath: string | null = null
-    const activeDoc = vscode.window.activeTextEditor?.document
-    selectedFilePath = (activeDoc && isGtsCandidateFile(activeDoc))
-      ? activeDoc.uri.fsPath
-      : null
+    const selectedFilePath = activeGtsFilePath()
 
-    console.log('[GTS Extension] scanAndPost:', activeDoc, selectedFilePath)
+    console.log('[GTS Extension] scanAndPost:', selectedFilePath)
     const include = includeGlob
     const exclude = '**/{node_modules,.gts-viewer,dist,.git}/**'
     const uris = await vscode.workspace.findFiles(include, exclude, 10000)
@@ -41,19 +144,13 @@ async function scanAndPost(includeGlob: string = '**/*.{json,jsonc,gts,yaml,yml}
     const startTime = Date.now()
     let progressShown = false
 
-    const files: Array<{ path: string; name: string; content: any }> = []
+    const files: JsonFileInput[] = []
     let processed = 0
 
     for (const uri of uris) {
       try {
         const data = await vscode.workspace.fs.readFile(uri)
-        const text = Buffer.from(data).toString('utf8')
-        try {
-          const content = parseJSONC(text)
-          files.push({ path: uri.fsPath, name: path.basename(uri.fsPath), content })
-        } catch (e) {
-          files.push({ path: uri.fsPath, name: path.basename(uri.fsPath), content: text })
-        }
+        files.push(toScanFile(uri.fsPath, Buffer.from(data).toString('utf8')))
       } catch (e) {
       } finally {
         processed++
@@ -68,53 +165,14 @@ async function scanAndPost(includeGlob: string = '**/*.{json,jsonc,gts,yaml,yml}
       }
     }
 
-    // Prepare JsonRegistry and set default file before validation
-    const registry = new JsonRegistry()
+    // Replace the shared registry and set default file before posting results
+    setLastScanFiles(files)
+    const registry = await getScanRegistry()
     if (selectedFilePath) {
-      (registry as any).setDefaultFile?.(selectedFilePath)
-    }
-    await registry.ingestFiles(files, DEFAULT_GTS_CONFIG)
-
-    // Send scan result with default file path so the webview can compute initial selection
-    if (hasViewer) {
-      viewerPanel!.webview.postMessage({ type: 'gts-scan-result', detail: { files, defaultFilePath: selectedFilePath } })
+      registry.setDefaultFile(selectedFilePath)
     }
-    try { setLastScanFiles(files) } catch {}
 
-    // Refresh the link provider with the latest registry
-    if (gtsLinkProvider) {
-      try {
-        await gtsLinkProvider.refresh()
-      } catch (e) {
-        console.error('[GTS] Error refreshing link provider:', e)
-      }
-    }
-
-    if (hasViewer) {
-      try {
-        const objs = Array.from(registry.jsonObjs.values()).map(o => ({ id: o.id, listSequence: o.listSequence, filePath: o.file?.path, schemaId: o.schemaId, validation: o.validation }))
-        const schemas = Array.from(registry.jsonSchemas.values()).map(s => ({ id: s.id, filePath: s.file?.path, validation: s.validation }))
-        const invalidFilesHost = Array.from(registry.invalidFiles.values()).map(f => ({ path: f.path, name: f.name, validation: f.validation }))
-        viewerPanel!.webview.postMessage({ type: 'gts-validation-result', detail: { objs, schemas, invalidFiles: invalidFilesHost } })
-      } catch (ve: any) {
-        viewerPanel!.webview.postMessage({ type: 'gts-validation-error', detail: { error: ve?.message || String(ve) } })
-      }
-    }
-
-    // After scan + validation updates are delivered, instruct the webview to refresh diagrams for the updated file
-    if (hasViewer && refreshFilePath) {
-      try {
-        viewerPanel!.webview.postMessage({ type: 'gts-refresh-layout', detail: { filePath: refreshFilePath } })
-      } catch {}
-    }
-
-    // Re-validate all open documents now that we have the full registry
-    console.log('[GTS] Re-validating all open documents...')
-    vscode.workspace.textDocuments.forEach(doc => {
-      if (isGtsCandidateFile(doc)) {
-        void validateOpenDocument(doc)
-      }
-    })
+    await refreshAfterRegistryChange(registry, selectedFilePath, refreshFilePath)
   } catch (error: any) {
     if (hasViewer) {
       viewerPanel!.webview.postMessage({ type: 'gts-scan-error', detail: { error: error.message || String(error) } })
@@ -155,6 +213,26 @@ export async function activate(context: vscode.ExtensionContext) {
     vscode.languages.registerHoverProvider(documentSelector, gtsLinkProvider)
   )
 
+  // Quick fixes for GTS diagnostics
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(documentSelector, new GtsCodeActionProvider(), {
+      providedCodeActionKinds: GtsCodeActionProvider.providedCodeActionKinds
+    })
+  )
+
+  // Schema-aware completion for instance files
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(documentSelector, new GtsCompletionProvider(), ...GtsCompletionProvider.triggerCharacters)
+  )
+
+  // Go to definition, find references and rename for GTS IDs
+  const gtsNavigationProvider = new GtsNavigationProvider()
+  context.subscriptions.push(
+    vscode.languages.registerDefinitionProvider(documentSelector, gtsNavigationProvider),
+    vscode.languages.registerReferenceProvider(documentSelector, gtsNavigationProvider),
+    vscode.languages.registerRenameProvider(documentSelector, gtsNavigationProvider)
+  )
+
   // Update decorations when active editor changes
   context.subscriptions.push(
     vscode.window.onDidChangeActiveTextEditor(editor => {
@@ -190,6 +268,22 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   )
 
+  // Workspace tree of GTS types, instances and invalid files
+  gtsTreeProvider = new GtsWorkspaceTreeProvider()
+  context.subscriptions.push(
+    gtsTreeProvider,
+    vscode.window.createTreeView(GtsWorkspaceTreeProvider.viewId, { treeDataProvider: gtsTreeProvider, showCollapseAll: true }),
+    vscode.commands.registerCommand('gts.tree.openInViewer', (node: GtsTreeNode) => {
+      if (node?.filePath) openViewer(context, vscode.Uri.file(node.filePath))
+    }),
+    vscode.commands.registerCommand('gts.tree.revealFile', async (node: GtsTreeNode) => {
+      if (node?.filePath) await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(node.filePath))
+    }),
+    vscode.commands.registerCommand('gts.tree.copyId', async (node: GtsTreeNode) => {
+      if (node?.gtsId) await vscode.env.clipboard.writeText(node.gtsId)
+    })
+  )
+
   // Register command to replace erroneous GTS ID with suggestion
   context.subscriptions.push(
     vscode.commands.registerCommand('gts.replaceGtsId', async (documentUri: string, rangeData: any, newText: string, includeQuotes: boolean) => {
@@ -243,6 +337,47 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   )
 
+  // Keep the registry in sync with files created, changed or deleted outside the editor
+  const watcher = vscode.workspace.createFileSystemWatcher('**/*.{json,jsonc,gts,yaml,yml}')
+  const onDiskChange = async (uri: vscode.Uri) => {
+    // Open documents are tracked through their editor buffer instead
+    if (vscode.workspace.textDocuments.some(d => isWorkspaceGtsFile(d) && d.uri.fsPath === uri.fsPath)) return
+    if (!isScannedFilePath(uri.fsPath)) return
+    try {
+      const data = await vscode.workspace.fs.readFile(uri)
+      await applyFileChange(toScanFile(uri.fsPath, Buffer.from(data).toString('utf8')))
+    } catch (e) {
+      console.warn(`[GTS] Could not read file: ${uri.fsPath}`, e)
+    }
+  }
+  watcher.onDidCreate(onDiskChange)
+  watcher.onDidChange(onDiskChange)
+  watcher.onDidDelete(uri => applyFileRemoval(uri.fsPath))
+  context.subscriptions.push(watcher)
+
+  // A closed document may have had unsaved edits: go back to the file on disk, or drop
+  // a file the scan would not have read (outside the scanned folders, or never saved)
+  context.subscriptions.push(
+    vscode.workspace.onDidCloseTextDocument(async (doc) => {
+      if (!isWorkspaceGtsFile(doc)) return
+      if (changeTimer) {
+        clearTimeout(changeTimer)
+        changeTimer = null
+      }
+      const filePath = doc.uri.fsPath
+      if (!isScannedFilePath(filePath)) {
+        await applyFileRemoval(filePath)
+        return
+      }
+      try {
+        const data = await vscode.workspace.fs.readFile(doc.uri)
+        await applyFileChange(toScanFile(filePath, Buffer.from(data).toString('utf8')))
+      } catch {
+        await applyFileRemoval(filePath)
+      }
+    })
+  )
+
   // Show welcome message
   vscode.window.showInformationMessage('GTS Viewer is ready! Use "GTS: Open Viewer" to start.')
 }
@@ -259,19 +394,13 @@ async function performInitialScan() {
 
     console.log(`[GTS] Found ${uris.length} JSON/JSONC/GTS files in workspace`)
 
-    const files: Array<{ path: string; name: string; content: any }> = []
+    const files: JsonFileInput[] = []
 
     for (const uri of uris) {
       try {
         const data = await vscode.workspace.fs.readFile(uri)
-        const text = Buffer.from(data).toString('utf8')
-        try {
-          const content = parseJSONC(text)
-          files.push({ path: uri.fsPath, name: path.basename(uri.fsPath), content })
-        } catch (e) {
-          // If JSONC parsing fails, store as text for later validation
-          files.push({ path: uri.fsPath, name: path.basename(uri.fsPath), content: text })
-        }
+        // Unparsable files are kept as text for later validation
+        files.push(toScanFile(uri.fsPath, Buffer.from(data).toString('utf8')))
       } catch (e) {
         // Skip files that can't be read
         console.warn(`[GTS] Could not read file: ${uri.fsPath}`, e)
@@ -281,10 +410,10 @@ async function performInitialScan() {
     console.log(`[GTS] Successfully loaded ${files.length} files for validation registry`)
     setLastScanFiles(files)
 
-    // Also ingest into a registry to verify schemas are loading
-    const registry = new JsonRegistry()
-    await registry.ingestFiles(files, DEFAULT_GTS_CONFIG)
+    // Ingest the shared registry once; later changes are applied incrementally
+    const registry = await getScanRegistry()
     console.log(`[GTS] Registry initialized: ${registry.jsonSchemas.size} schemas, ${registry.jsonObjs.size} objects`)
+    gtsTreeProvider?.refresh(registry)
 
     // Refresh the link provider with the initial scan data
     if (gtsLinkProvider) {
@@ -317,19 +446,53 @@ export async function deactivate() {
   layoutStorage = null
 }
 
-// Debounced rescan on change to auto-refresh layout view while typing
+// Debounced incremental update on change to auto-refresh layout view while typing
 let changeTimer: NodeJS.Timeout | null = null
 
 function handleFileChange(doc: vscode.TextDocument, delayMsec: number = 500) {
-  console.log(`[GTS] File changed 1: ${doc.uri.fsPath}`)
-  if (!isGtsCandidateFile(doc)) return
+  if (!isWorkspaceGtsFile(doc)) return
   if (changeTimer) clearTimeout(changeTimer)
-  console.log(`[GTS] File changed 2: ${doc.uri.fsPath}`)
   changeTimer = setTimeout(() => {
-    scanAndPost('**/*.{json,jsonc,gts,yaml,yml}', false, doc.uri.fsPath)
+    void applyFileChange(toScanFile(doc.uri.fsPath, doc.getText()))
   }, delayMsec)
 }
 
+/**
+ * Apply a single added or changed file to the shared registry, re-validating only the entities it affects
+ */
+async function applyFileChange(file: JsonFileInput) {
+  try {
+    console.log(`[GTS] Applying change: ${file.path}`)
+    await refreshAfterFileChange(await updateScanFile(file), file.path, file)
+  } catch (error) {
+    console.error(`[GTS] Error applying change to ${file.path}:`, error)
+  }
+}
+
+/**
+ * Remove a deleted file from the shared registry, re-validating the entities that referenced it
+ */
+async function applyFileRemoval(filePath: string) {
+  try {
+    console.log(`[GTS] Applying removal: ${filePath}`)
+    await refreshAfterFileChange(await removeScanFile(filePath), filePath, null)
+  } catch (error) {
+    console.error(`[GTS] Error applying removal of ${filePath}:`, error)
+  }
+}
+
+/**
+ * Read the workspace config of a workspace folder; an absent or unparsable file yields no settings
+ */
+function readWorkspaceConfig(workspaceRoot: string) {
+  try {
+    const fs = require('fs')
+    return parseWorkspaceConfig(parseJSONC(fs.readFileSync(path.join(workspaceRoot, WORKSPACE_CONFIG_PATH), 'utf8')))
+  } catch {
+    return {}
+  }
+}
+
 function openViewer(context: vscode.ExtensionContext, resource?: vscode.Uri) {
   // If viewer already exists, just reveal it (do not change selection or default file)
   if (viewerPanel) {
@@ -358,8 +521,11 @@ function openViewer(context: vscode.ExtensionContext, resource?: vscode.Uri) {
   }
 
   const workspaceRoot = workspaceFolders[0].uri.fsPath
-  layoutStorage = new RepoLayoutStorage(workspaceRoot)
-  console.log(`[GTS] Using layout storage at: ${workspaceRoot}/.gts-viewer`)
+  const layoutsDir = readWorkspaceConfig(workspaceRoot).layout?.storage === 'home'
+    ? path.join(os.homedir(), '.gts-viewer', 'layouts')
+    : path.join(workspaceRoot, '.gts-viewer')
+  layoutStorage = new RepoLayoutStorage(workspaceRoot, layoutsDir)
+  console.log(`[GTS] Using layout storage at: ${layoutsDir}`)
 
   viewerPanel = vscode.window.createWebviewPanel(
     'gtsViewer',
@@ -431,7 +597,17 @@ function openViewer(context: vscode.ExtensionContext, resource?: vscode.Uri) {
             const filePath = message.filePath
             if (filePath) {
               const uri = vscode.Uri.file(filePath)
-              await vscode.window.showTextDocument(uri, { preview: false })
+              const editor = await vscode.window.showTextDocument(uri, { preview: false })
+              // Entities of array files and multi-document YAML are revealed at their own item/document
+              if (typeof message.listSequence === 'number') {
+                const document = editor.document
+                const range = createSourceMap(document.getText(), document.fileName).rangeAt(`/${message.listSequence}`)
+                if (range) {
+                  const start = document.positionAt(range.start)
+                  editor.selection = new vscode.Selection(start, start)
+                  editor.revealRange(new vscode.Range(start, document.positionAt(range.end)), vscode.TextEditorRevealType.InCenterIfOutsideViewport)
+                }
+              }
             }
           } catch (error: any) {
             console.error('[GTS] Error opening file:', error)
@@ -518,9 +694,9 @@ function openViewer(context: vscode.ExtensionContext, resource?: vscode.Uri) {
           // fire-and-forget; results come via gts-scan-* events
           vscodeApi.postMessage({ type: 'scanWorkspaceJson', id, options: opts || {} });
         },
-        openFile(filePath) {
-          // fire-and-forget; open file in VS Code editor
-          vscodeApi.postMessage({ type: 'openFile', filePath });
+        openFile(filePath, listSequence) {
+          // fire-and-forget; open file in VS Code editor at the entity's item/document
+          vscodeApi.postMessage({ type: 'openFile', filePath, listSequence });
         },
         // Trigger auto-scan on load
         autoScan: true
@@ -1,8 +1,47 @@
 import * as vscode from 'vscode'
-import { isGtsCandidateFileName } from '@gts/shared'
+import * as path from 'path'
+import { isGtsCandidateFileName, isYamlFileName, parseJSONC, parseYAML } from '@gts/shared'
+import type { JsonEntity, JsonFileInput } from '@gts/shared'
 
 export function isGtsCandidateFile(document: vscode.TextDocument): boolean {
     return document.languageId === 'json' ||
            document.languageId === 'jsonc' ||
            isGtsCandidateFileName(document.fileName)
 }
+
+/**
+ * Whether a path is one the workspace scan reads (see the include/exclude globs of the scan)
+ */
+export function isScannedFilePath(fsPath: string): boolean {
+    return isGtsCandidateFileName(fsPath) && !/[\\/](node_modules|\.gts-viewer|dist|\.git)[\\/]/.test(fsPath)
+}
+
+/**
+ * Whether a document's text belongs in the shared registry: a candidate file on disk inside a workspace folder.
+ * Diff, read-only and untitled views share the fsPath of the real file but not its content, so they are excluded.
+ */
+export function isWorkspaceGtsFile(document: vscode.TextDocument): boolean {
+    return isGtsCandidateFile(document) &&
+           document.uri.scheme === 'file' &&
+           vscode.workspace.getWorkspaceFolder(document.uri) !== undefined
+}
+
+/**
+ * Pointer of an entity within its file: its index in a multi-entity (array) file, otherwise the root
+ */
+export function entityPointer(entity: JsonEntity): string {
+    return entity.listSequence !== undefined ? `/${entity.listSequence}` : ''
+}
+
+/**
+ * Build a registry input from file text; unparsable text is kept as-is so the registry can report it
+ */
+export function toScanFile(filePath: string, text: string): JsonFileInput {
+    let content: any
+    try {
+        content = isYamlFileName(filePath) ? parseYAML(text) : parseJSONC(text)
+    } catch {
+        content = text
+    }
+    return { path: filePath, name: path.basename(filePath), content }
+}
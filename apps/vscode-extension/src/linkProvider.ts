@@ -1,8 +1,15 @@
 import * as vscode from 'vscode'
-import { JsonRegistry, DEFAULT_GTS_CONFIG, GTS_REGEX, GTS_COLORS, parseGtsIdParts, findSimilarEntityIds } from '@gts/shared'
-import { getLastScanFiles } from './scanStore'
+import { JsonRegistry, JsonEntity, GTS_REGEX, GTS_COLORS, parseGtsIdParts, findSimilarEntityIds, parseGtsId, GtsIdError } from '@gts/shared'
+import { getLastScanFiles, getScanRegistry } from './scanStore'
 import * as jsonc from 'jsonc-parser'
 
+// Maximum number of referrers listed in a hover
+const MAX_HOVER_REFERRERS = 5
+
+// Diagnostic codes, used by the code action provider to pick quick fixes
+export const INVALID_GTS_ID_CODE = 'invalid-gts-id'
+export const GTS_ENTITY_NOT_FOUND_CODE = 'gts-entity-not-found'
+
 /**
  * Represents a GTS ID reference found in the document
  */
@@ -101,13 +108,24 @@ function findEntityLineInFile(filePath: string, entityId: string): number {
   return 0 // Default to first line
 }
 
+/**
+ * Get the parse error for a malformed GTS ID, or null if it parses
+ */
+function getGtsIdParseError(gtsId: string): GtsIdError | null {
+  try {
+    parseGtsId(gtsId)
+    return null
+  } catch (error) {
+    return error instanceof GtsIdError ? error : null
+  }
+}
+
 /**
  * DocumentLinkProvider for GTS IDs
  * Makes GTS IDs clickable and provides hover information
  */
 export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.HoverProvider {
   private registry: JsonRegistry | null = null
-  private lastRegistryUpdate: number = 0
   private diagnosticCollection: vscode.DiagnosticCollection
 
   // Decoration types for color coding
@@ -175,7 +193,7 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
   }
 
   /**
-   * Update the registry with the latest scanned files
+   * Pick up the shared scan registry, which is kept current incrementally as files change
    */
   private async updateRegistry(): Promise<void> {
     try {
@@ -184,15 +202,64 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
         return
       }
 
-      this.registry = new JsonRegistry()
-      await this.registry.ingestFiles(files, DEFAULT_GTS_CONFIG)
-      this.lastRegistryUpdate = Date.now()
+      const registry = await getScanRegistry()
+      if (registry === this.registry) {
+        return
+      }
+      this.registry = registry
       console.log(`[GTS LinkProvider] Registry updated: ${this.registry.jsonSchemas.size} schemas, ${this.registry.jsonObjs.size} objects`)
     } catch (error) {
       console.error('[GTS LinkProvider] Error updating registry:', error)
     }
   }
 
+  /**
+   * Append who references an entity (and, for schemas, how many instances it has) to a hover
+   */
+  private appendUsage(markdown: vscode.MarkdownString, entity: JsonEntity): void {
+    if (!this.registry) return
+    const referrers = this.registry.getReferrers(entity.id)
+    const transitiveCount = this.registry.getTransitiveReferrers(entity.id).length
+
+    markdown.appendMarkdown(`\n\nReferenced by: ${referrers.length} ${referrers.length === 1 ? 'entity' : 'entities'}`)
+    if (transitiveCount > referrers.length) {
+      markdown.appendMarkdown(` (${transitiveCount} transitively)`)
+    }
+    if (entity.isSchema) {
+      const instanceCount = this.registry.getInstancesOf(entity.id).length
+      markdown.appendMarkdown(`\n\nInstances (incl. derived types): ${instanceCount}`)
+    }
+
+    const shown = referrers.slice(0, MAX_HOVER_REFERRERS)
+    if (shown.length > 0) {
+      markdown.appendMarkdown(`\n\n`)
+      for (const referrer of shown) {
+        const icon = referrer.isSchema ? '📘' : '📄'
+        if (referrer.file) {
+          const uri = vscode.Uri.file(referrer.file.path).with({ fragment: `L${findEntityLineInFile(referrer.file.path, referrer.id) + 1}` })
+          markdown.appendMarkdown(`- ${icon} [${escapeMarkdown(referrer.id)}](${uri.toString()})\n`)
+        } else {
+          markdown.appendMarkdown(`- ${icon} ${escapeMarkdown(referrer.id)}\n`)
+        }
+      }
+      if (referrers.length > shown.length) {
+        markdown.appendMarkdown(`- *…and ${referrers.length - shown.length} more*\n`)
+      }
+    }
+  }
+
+  /**
+   * Look up an entity by ID, resolving major-only type references to the latest minor version
+   */
+  private lookupEntity(entityId: string): JsonEntity | undefined {
+    if (!this.registry) return undefined
+    const entity = this.registry.jsonSchemas.get(entityId) || this.registry.jsonObjs.get(entityId)
+    if (entity) return entity
+    // Prefer the version validation picked, so the hover and diagram agree
+    const resolvedId = this.registry.resolvedVersions.get(entityId) ?? this.registry.resolveSchemaId(entityId)
+    return resolvedId ? this.registry.jsonSchemas.get(resolvedId) : undefined
+  }
+
   /**
    * Refresh the registry if needed
    */
@@ -249,13 +316,18 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
         const errorRange = new vscode.Range(startPos, endPos)
         errorRanges.push(errorRange)
 
-        // Create diagnostic for invalid GTS format
+        // Create diagnostic for invalid GTS format, pointing at the first malformed character
+        const parseError = getGtsIdParseError(ref.id)
+        const diagnosticRange = parseError
+          ? new vscode.Range(document.positionAt(gtsStartOffset + Math.min(parseError.offset, ref.id.length - 1)), endPos)
+          : errorRange
         const diagnostic = new vscode.Diagnostic(
-          errorRange,
-          `Invalid GTS ID format: "${ref.id}". Expected pattern: gts.<VENDOR>.<PACKAGE>.<NAMESPACE>.<TYPE>.v<MAJ>[.<MIN>[~...]]`,
+          diagnosticRange,
+          `Invalid GTS ID format: "${ref.id}". ${parseError ? parseError.message + '. ' : ''}Expected pattern: gts.<VENDOR>.<PACKAGE>.<NAMESPACE>.<TYPE>.v<MAJ>[.<MIN>[~...]]`,
           vscode.DiagnosticSeverity.Error
         )
         diagnostic.source = 'gts'
+        diagnostic.code = INVALID_GTS_ID_CODE
         diagnostics.push(diagnostic)
 
         continue
@@ -277,21 +349,14 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
       let currentOffset = gtsStartOffset
       for (const part of parts) {
         const partStartPos = document.positionAt(currentOffset)
-        const partEndPos = document.positionAt(currentOffset + part.length)
+        const partEndPos = document.positionAt(currentOffset + part.text.length)
         const partRange = new vscode.Range(partStartPos, partEndPos)
 
         // Determine the full entity ID to look up
-        let entityIdToLookup: string
-        if (parts.length === 1) {
-          entityIdToLookup = part
-        } else if (part === parts[0]) {
-          entityIdToLookup = part
-        } else {
-          entityIdToLookup = parts[0] + part
-        }
+        const entityIdToLookup = part.entityId
 
         // Look up the entity in the registry
-        const entity = this.registry.jsonSchemas.get(entityIdToLookup) || this.registry.jsonObjs.get(entityIdToLookup)
+        const entity = this.lookupEntity(entityIdToLookup)
 
         if (entity) {
           if (entity.isSchema) {
@@ -310,10 +375,11 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
             vscode.DiagnosticSeverity.Error
           )
           diagnostic.source = 'gts'
+          diagnostic.code = GTS_ENTITY_NOT_FOUND_CODE
           diagnostics.push(diagnostic)
         }
 
-        currentOffset += part.length
+        currentOffset += part.text.length
       }
     }
 
@@ -381,10 +447,8 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
     document: vscode.TextDocument,
     token: vscode.CancellationToken
   ): Promise<vscode.DocumentLink[]> {
-    // Refresh registry if it's been more than 5 seconds since last update
-    if (!this.registry || Date.now() - this.lastRegistryUpdate > 5000) {
-      await this.updateRegistry()
-    }
+    // Pick up the registry of the latest full scan, if any
+    await this.updateRegistry()
 
     if (!this.registry) {
       return []
@@ -412,31 +476,21 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
       let currentOffset = gtsStartOffset
       for (const part of parts) {
         const partStartPos = document.positionAt(currentOffset)
-        const partEndPos = document.positionAt(currentOffset + part.length)
+        const partEndPos = document.positionAt(currentOffset + part.text.length)
         const partRange = new vscode.Range(partStartPos, partEndPos)
 
         // Determine the full entity ID to look up
-        let entityIdToLookup: string
-        if (parts.length === 1) {
-          // Only one part, use it as-is
-          entityIdToLookup = part
-        } else if (part === parts[0]) {
-          // First part (schema type)
-          entityIdToLookup = part
-        } else {
-          // Second part (instance), combine with first part
-          entityIdToLookup = parts[0] + part
-        }
+        const entityIdToLookup = part.entityId
 
         // Look up the entity in the registry
-        const entity = this.registry.jsonSchemas.get(entityIdToLookup) || this.registry.jsonObjs.get(entityIdToLookup)
+        const entity = this.lookupEntity(entityIdToLookup)
 
         if (entity && entity.file) {
           // Create a document link
           const link = new vscode.DocumentLink(partRange)
 
           // Find the line number where the entity is defined
-          const lineNumber = findEntityLineInFile(entity.file.path, entityIdToLookup)
+          const lineNumber = findEntityLineInFile(entity.file.path, entity.id)
 
           // Create a command URI that opens the file at the specific line
           const uri = vscode.Uri.parse(
@@ -452,7 +506,7 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
           links.push(link)
         }
 
-        currentOffset += part.length
+        currentOffset += part.text.length
       }
     }
 
@@ -467,10 +521,8 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
     position: vscode.Position,
     token: vscode.CancellationToken
   ): Promise<vscode.Hover | null> {
-    // Refresh registry if needed
-    if (!this.registry || Date.now() - this.lastRegistryUpdate > 5000) {
-      await this.updateRegistry()
-    }
+    // Pick up the registry of the latest full scan, if any
+    await this.updateRegistry()
 
     if (!this.registry) {
       return null
@@ -579,24 +631,15 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
     let hoverRange = matchedRef.range
 
     if (parts.length > 1) {
-      const firstPartLength = parts[0].length
-      if (relativeOffset < firstPartLength) {
-        // Cursor is on the first part
-        entityIdToLookup = parts[0]
-        const startPos = document.positionAt(gtsStartOffset)
-        const endPos = document.positionAt(gtsStartOffset + firstPartLength)
-        hoverRange = new vscode.Range(startPos, endPos)
-      } else {
-        // Cursor is on the second part
-        entityIdToLookup = parts[0] + parts[1]
-        const startPos = document.positionAt(gtsStartOffset + firstPartLength)
-        const endPos = document.positionAt(gtsStartOffset + gtsId.length)
-        hoverRange = new vscode.Range(startPos, endPos)
-      }
+      // The part under the cursor names the chain up to it
+      const part = parts.find(p => relativeOffset < p.entityId.length) ?? parts[parts.length - 1]
+      const partEnd = gtsStartOffset + part.entityId.length
+      entityIdToLookup = part.entityId
+      hoverRange = new vscode.Range(document.positionAt(partEnd - part.text.length), document.positionAt(partEnd))
     }
 
     // Look up the entity in the registry
-    const entity = this.registry.jsonSchemas.get(entityIdToLookup) || this.registry.jsonObjs.get(entityIdToLookup)
+    const entity = this.lookupEntity(entityIdToLookup)
 
     if (!entity) {
       // Entity not found - show error with suggestions
@@ -650,7 +693,7 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
     const entityType = entity.isSchema ? 'Schema' : 'Instance'
 
     // Add file path as a clickable link
-    const lineNumber = findEntityLineInFile(entity.file.path, entityIdToLookup)
+    const lineNumber = findEntityLineInFile(entity.file.path, entity.id)
     const fileUri = vscode.Uri.file(entity.file.path).with({
       fragment: `L${lineNumber + 1}`
     })
@@ -659,6 +702,9 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
     // Make the GTS ID itself clickable
     markdown.appendMarkdown(`GTS ID: [${escapeMarkdown(entityIdToLookup)}](${fileUri.toString()})\n\n`)
     markdown.appendMarkdown(`Type: ${entityType}\n\n`)
+    if (entity.id !== entityIdToLookup) {
+      markdown.appendMarkdown(`Resolved version: ${escapeMarkdown(entity.id)}\n\n`)
+    }
     markdown.appendMarkdown(`Definition: [${escapeMarkdown(relativePath)}](${fileUri.toString()})`)
 
     // Add description if available (on a new line, no label)
@@ -667,6 +713,8 @@ export class GtsLinkProvider implements vscode.DocumentLinkProvider, vscode.Hove
       markdown.appendMarkdown(`\n\nDescription: ${escapeMarkdown(description)}`)
     }
 
+    this.appendUsage(markdown, entity)
+
     return new vscode.Hover(markdown, hoverRange)
   }
 }
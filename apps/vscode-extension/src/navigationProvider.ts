@@ -0,0 +1,195 @@
+import * as vscode from 'vscode'
+import * as path from 'path'
+import * as fs from 'fs'
+import { JsonRegistry, JsonEntity, GTS_REGEX, GTS_URI_PREFIX, createSourceMap, normalizeGtsId, parseGtsIdParts, tryParseGtsId } from '@gts/shared'
+import { getLastScanFiles, getScanRegistry } from './scanStore'
+
+/**
+ * A GTS ID under the cursor: the whole ID, or the base types of a chained ID up to the cursor
+ */
+interface GtsIdTarget {
+  id: string
+  range: vscode.Range
+}
+
+/**
+ * Escape special regex characters
+ */
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Whether a string value contains the ID: equal to it, or (for type IDs) a chained ID starting with it
+ */
+function embedsId(value: string, id: string): boolean {
+  return value === id || (id.endsWith('~') && value.startsWith(id))
+}
+
+/**
+ * Regex matching an ID inside a file name. A type ID may be followed by anything (a chained
+ * segment or the extension); an instance ID only by the extension, so "…v1" does not match "…v1.0".
+ */
+function fileNameIdPattern(id: string): RegExp {
+  const tail = id.endsWith('~') ? '' : '(?=\\.[a-zA-Z]|$)'
+  return new RegExp(`(?<![\\w.~])${escapeRegex(id)}${tail}`, 'g')
+}
+
+/**
+ * Go to definition, find references and rename for GTS IDs, backed by the scan registry.
+ * References and renames cover every string value containing the ID, including chained IDs
+ * derived from a type; renames also rename files whose names embed the ID.
+ */
+export class GtsNavigationProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.RenameProvider {
+  async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location | null> {
+    const target = this.targetAt(document, position)
+    if (!target) return null
+    const entity = this.lookupEntity(await getScanRegistry(), target.id)
+    return entity ? this.definitionLocation(entity) : null
+  }
+
+  async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext
+  ): Promise<vscode.Location[]> {
+    const target = this.targetAt(document, position)
+    if (!target) return []
+    const entity = this.lookupEntity(await getScanRegistry(), target.id)
+    const id = entity?.id ?? target.id
+
+    const locations = await this.findOccurrences(id)
+    if (context.includeDeclaration || !entity) return locations
+    const definition = await this.definitionLocation(entity)
+    return locations.filter(l => !(definition && l.uri.fsPath === definition.uri.fsPath && l.range.isEqual(definition.range)))
+  }
+
+  async prepareRename(document: vscode.TextDocument, position: vscode.Position): Promise<{ range: vscode.Range; placeholder: string }> {
+    const target = this.targetAt(document, position)
+    if (!target) throw new Error('No GTS ID at this position')
+    const entity = this.lookupEntity(await getScanRegistry(), target.id)
+    if (!entity || entity.id !== target.id) throw new Error(`GTS entity not found: ${target.id}`)
+    return { range: target.range, placeholder: target.id }
+  }
+
+  async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): Promise<vscode.WorkspaceEdit | null> {
+    const target = this.targetAt(document, position)
+    if (!target) return null
+    const oldId = target.id
+    const newId = normalizeGtsId(newName.trim())
+
+    const oldGtsId = tryParseGtsId(oldId)
+    const newGtsId = tryParseGtsId(newId)
+    if (!newGtsId) throw new Error(`Invalid GTS ID: ${newName}`)
+    if (oldGtsId && oldGtsId.isType !== newGtsId.isType) {
+      throw new Error(oldGtsId.isType ? 'A type ID must end with ~' : 'An instance ID must not end with ~')
+    }
+    if (newId === oldId) return null
+
+    const edit = new vscode.WorkspaceEdit()
+    for (const location of await this.findOccurrences(oldId)) {
+      edit.replace(location.uri, location.range, newId)
+    }
+
+    // File renames go after the text edits, which address the files by their old names
+    const pattern = fileNameIdPattern(oldId)
+    for (const filePath of new Set(getLastScanFiles().map(f => f.path))) {
+      const name = path.basename(filePath)
+      const newFileName = name.replace(pattern, newId)
+      if (newFileName !== name) {
+        edit.renameFile(vscode.Uri.file(filePath), vscode.Uri.file(path.join(path.dirname(filePath), newFileName)))
+      }
+    }
+    return edit
+  }
+
+  /**
+   * The GTS ID under the cursor. On a part of a chained ID, the chain up to and including
+   * that part (same split as the hover); on the last part the whole ID.
+   */
+  private targetAt(document: vscode.TextDocument, position: vscode.Position): GtsIdTarget | null {
+    const offset = document.offsetAt(position)
+    const scalar = createSourceMap(document.getText(), document.fileName).scalars()
+      .find(s => s.range.start <= offset && offset <= s.range.end)
+    if (!scalar) return null
+
+    const prefixLength = scalar.text.startsWith(GTS_URI_PREFIX) ? GTS_URI_PREFIX.length : 0
+    const id = normalizeGtsId(scalar.text)
+    if (!GTS_REGEX.test(id)) return null
+
+    const idStart = scalar.range.start + prefixLength
+    const parts = parseGtsIdParts(id)
+    const relativeOffset = offset - idStart
+    // The part under the cursor names the chain up to it
+    const targetId = parts.find(part => relativeOffset < part.entityId.length)?.entityId ?? id
+    return {
+      id: targetId,
+      range: new vscode.Range(document.positionAt(idStart), document.positionAt(idStart + targetId.length))
+    }
+  }
+
+  /**
+   * Look up an entity by ID, resolving major-only type references to the latest minor version
+   */
+  private lookupEntity(registry: JsonRegistry, id: string): JsonEntity | undefined {
+    const entity = registry.jsonSchemas.get(id) || registry.jsonObjs.get(id)
+    if (entity) return entity
+    // Prefer the version validation picked, so the hover and diagram agree
+    const resolvedId = registry.resolvedVersions.get(id) ?? registry.resolveSchemaId(id)
+    return resolvedId ? registry.jsonSchemas.get(resolvedId) : undefined
+  }
+
+  /**
+   * Location of the field declaring an entity's ID (e.g. "$id" of a schema)
+   */
+  private async definitionLocation(entity: JsonEntity): Promise<vscode.Location | null> {
+    if (!entity.file) return null
+    const uri = vscode.Uri.file(entity.file.path)
+    const document = await vscode.workspace.openTextDocument(uri)
+    const text = document.getText()
+    const sourceMap = createSourceMap(text, document.fileName)
+
+    // Entities of array files and multi-document YAML live at their listSequence
+    const entityPointer = entity.listSequence !== undefined ? `/${entity.listSequence}` : ''
+    const idRange = entity.selectedEntityIdField
+      ? sourceMap.rangeAt(`${entityPointer}/${entity.selectedEntityIdField}`)
+      : undefined
+    if (!idRange) {
+      const entityRange = sourceMap.rangeAt(entityPointer)
+      return new vscode.Location(uri, document.positionAt(entityRange?.start ?? 0))
+    }
+
+    // Point at the ID itself, without quotes and gts:// prefix
+    let start = idRange.start
+    if (text[start] === '"' || text[start] === "'") start++
+    if (text.startsWith(GTS_URI_PREFIX, start)) start += GTS_URI_PREFIX.length
+    return new vscode.Location(uri, new vscode.Range(document.positionAt(start), document.positionAt(start + entity.id.length)))
+  }
+
+  /**
+   * Every string value in the scanned workspace files (JSON and YAML) that contains the ID, with the range of the ID part.
+   * Open documents are searched with their current (possibly unsaved) text.
+   */
+  private async findOccurrences(id: string): Promise<vscode.Location[]> {
+    const locations: vscode.Location[] = []
+    for (const filePath of new Set(getLastScanFiles().map(f => f.path))) {
+      const openDocument = vscode.workspace.textDocuments.find(d => d.uri.fsPath === filePath)
+      let text: string
+      try {
+        text = openDocument ? openDocument.getText() : await fs.promises.readFile(filePath, 'utf8')
+      } catch {
+        continue
+      }
+      if (!text.includes(id)) continue
+
+      const document = openDocument || await vscode.workspace.openTextDocument(vscode.Uri.file(filePath))
+      for (const scalar of createSourceMap(text, filePath).scalars()) {
+        const prefixLength = scalar.text.startsWith(GTS_URI_PREFIX) ? GTS_URI_PREFIX.length : 0
+        if (!embedsId(normalizeGtsId(scalar.text), id)) continue
+        const start = scalar.range.start + prefixLength
+        locations.push(new vscode.Location(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(start + id.length))))
+      }
+    }
+    return locations
+  }
+}
@@ -1,9 +1,78 @@
-let lastFiles: Array<{ path: string; name: string; content: any }> = []
+import { JsonRegistry, DEFAULT_GTS_CONFIG, isWorkspaceConfigPath } from '@gts/shared'
+import type { JsonEntity, JsonFileInput } from '@gts/shared'
 
-export function setLastScanFiles(files: Array<{ path: string; name: string; content: any }>): void {
+/**
+ * A file change applied to the scan registry
+ */
+export interface ScanUpdate {
+  registry: JsonRegistry
+  /** False if the file already had this content (or was not in the scan), so nothing needs refreshing */
+  changed: boolean
+  /** Entities re-validated by the change, or null if the registry was re-ingested */
+  affected: JsonEntity[] | null
+}
+
+function sameContent(file: JsonFileInput): boolean {
+  const previous = lastFiles.find(f => f.path === file.path)
+  return !!previous && JSON.stringify(previous.content) === JSON.stringify(file.content)
+}
+
+let lastFiles: JsonFileInput[] = []
+let registryPromise: Promise<JsonRegistry> | null = null
+
+export function setLastScanFiles(files: JsonFileInput[]): void {
   lastFiles = files
+  registryPromise = null
 }
 
-export function getLastScanFiles(): Array<{ path: string; name: string; content: any }> {
+export function getLastScanFiles(): JsonFileInput[] {
   return lastFiles
 }
+
+/**
+ * Get the registry for the last scan. It is ingested once per full scan and
+ * then kept up to date incrementally by updateScanFile/removeScanFile.
+ */
+export function getScanRegistry(): Promise<JsonRegistry> {
+  if (!registryPromise) {
+    const registry = new JsonRegistry()
+    registryPromise = registry.ingestFiles(lastFiles, DEFAULT_GTS_CONFIG).then(() => registry)
+  }
+  return registryPromise
+}
+
+/**
+ * Replace a single file in the last scan and re-validate only the entities it affects.
+ * A changed workspace config can change how every file is read, so it re-ingests the scan.
+ */
+export async function updateScanFile(file: JsonFileInput): Promise<ScanUpdate> {
+  // Editors re-send unchanged text (e.g. on save); re-applying a workspace config would re-ingest everything
+  if (sameContent(file)) {
+    return { registry: await getScanRegistry(), changed: false, affected: [] }
+  }
+  if (isWorkspaceConfigPath(file.path)) {
+    setLastScanFiles([...lastFiles.filter(f => f.path !== file.path), file])
+    return { registry: await getScanRegistry(), changed: true, affected: null }
+  }
+  lastFiles = [...lastFiles.filter(f => f.path !== file.path), file]
+  const registry = await getScanRegistry()
+  const { changed, revalidated } = await registry.updateFile(file, DEFAULT_GTS_CONFIG)
+  return { registry, changed, affected: revalidated }
+}
+
+/**
+ * Drop a deleted file from the last scan and re-validate the entities that referenced it
+ */
+export async function removeScanFile(filePath: string): Promise<ScanUpdate> {
+  if (!lastFiles.some(f => f.path === filePath)) {
+    return { registry: await getScanRegistry(), changed: false, affected: [] }
+  }
+  if (isWorkspaceConfigPath(filePath)) {
+    setLastScanFiles(lastFiles.filter(f => f.path !== filePath))
+    return { registry: await getScanRegistry(), changed: true, affected: null }
+  }
+  lastFiles = lastFiles.filter(f => f.path !== filePath)
+  const registry = await getScanRegistry()
+  const { changed, revalidated } = await registry.removeFile(filePath)
+  return { registry, changed, affected: revalidated }
+}
@@ -0,0 +1,53 @@
+import { JsonRegistry, JsonObj, decodeGtsId, pointerSegments } from '@gts/shared'
+
+/**
+ * Resolve a local JSON Pointer reference (e.g. '#/definitions/address') within a schema
+ */
+function resolveLocalRef(root: any, ref: string): any {
+  let node = root
+  for (const segment of pointerSegments(ref.substring(1))) {
+    if (!node || typeof node !== 'object') return undefined
+    node = node[segment]
+  }
+  return node
+}
+
+/**
+ * Follow a $ref of a schema node: local refs within the root schema, GTS refs to the effective schema in the registry
+ */
+export function resolveSchemaRef(registry: JsonRegistry, root: any, node: any): any {
+  if (!node || typeof node.$ref !== 'string') return node
+  const ref = decodeGtsId(node.$ref)
+  if (ref.startsWith('#')) return resolveLocalRef(root, ref) ?? node
+  return registry.getEffectiveSchema(ref.split('#')[0]) ?? node
+}
+
+/**
+ * Effective schema an instance is validated against, or undefined if it is not in the registry
+ */
+export function instanceSchema(registry: JsonRegistry, entity: JsonObj): any | undefined {
+  const schemaId = entity.resolvedSchemaId || entity.schemaId
+  return schemaId ? registry.getEffectiveSchema(schemaId) : undefined
+}
+
+/**
+ * Schema node describing the value at a path of an instance, following properties and array items
+ *
+ * @param registry - Registry used to resolve GTS $refs
+ * @param root - Root schema of the instance
+ * @param path - Path from the instance root (property names and array indices)
+ */
+export function schemaAtPath(registry: JsonRegistry, root: any, path: Array<string | number>): any | undefined {
+  let node = resolveSchemaRef(registry, root, root)
+  for (const segment of path) {
+    if (node?.properties && typeof segment === 'string' && segment in node.properties) {
+      node = node.properties[segment]
+    } else if (/^\d+$/.test(String(segment)) && node?.items && !Array.isArray(node.items)) {
+      node = node.items
+    } else {
+      return undefined
+    }
+    node = resolveSchemaRef(registry, root, node)
+  }
+  return node
+}
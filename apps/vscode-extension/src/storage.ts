@@ -5,13 +5,14 @@ import type { ILayoutStorage, LayoutSnapshot, LayoutSaveRequest, LayoutTarget }
 
 /**
  * Repository folder-based layout storage for VS Code version
- * Stores layouts in .gts-viewer/ directory in the repository root
+ * Stores layouts in .gts-viewer/ directory in the repository root, or in the given directory
+ * (e.g. ~/.gts-viewer/layouts when the workspace config asks for home storage)
  */
 export class RepoLayoutStorage implements ILayoutStorage {
   private layoutsDir: string
 
-  constructor(repoRootPath: string) {
-    this.layoutsDir = join(repoRootPath, '.gts-viewer')
+  constructor(repoRootPath: string, layoutsDir: string = join(repoRootPath, '.gts-viewer')) {
+    this.layoutsDir = layoutsDir
   }
 
   private async ensureLayoutsDir(): Promise<void> {
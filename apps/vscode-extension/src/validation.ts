@@ -1,354 +1,126 @@
 import * as vscode from 'vscode'
 import * as path from 'path'
-import { JsonRegistry, ValidationError, DEFAULT_GTS_CONFIG, parseJSONC } from '@gts/shared'
-import { getLastScanFiles } from './scanStore'
-import { isGtsCandidateFile } from './helpers'
+import { SourceMap, ValidationError, createSourceMap } from '@gts/shared'
+import type { JsonRegistry } from '@gts/shared'
+import { updateScanFile } from './scanStore'
+import { entityPointer, isGtsCandidateFile, isWorkspaceGtsFile, toScanFile } from './helpers'
 
 let diagnosticCollection: vscode.DiagnosticCollection
-let isInitialScanComplete = false
 
 /**
- * Convert validation errors to VSCode diagnostics
+ * Range of the key or value at an error's instancePath; the start of the document if it cannot be located
+ *
+ * @param basePointer - Pointer of the entity within the document ('' for single-entity files)
  */
-function validationErrorsToDiagnostics(errors: ValidationError[], document: vscode.TextDocument): vscode.Diagnostic[] {
-  const diagnostics: vscode.Diagnostic[] = []
-
-  for (const error of errors) {
-    console.log(`[GTS Validation] Processing error:`, {
-      keyword: error.keyword,
-      instancePath: error.instancePath,
-      message: error.message,
-      params: error.params
-    })
-
-    // Try to find the error location in the document
-    let range: vscode.Range
-
-    // Try to find position using instancePath (even if empty) or error-specific logic
-    const position = findErrorPosition(document, error.instancePath || '', error)
-    console.log(`[GTS Validation] Position found for path '${error.instancePath}':`, position ? `line ${position.start.line}` : 'null')
-
-    if (position) {
-      range = position
-    } else {
-      // Fallback to start of document
-      console.log(`[GTS Validation] Using fallback position (start of document)`)
-      range = new vscode.Range(0, 0, 0, 1)
-    }
+export function validationErrorRange(error: ValidationError, document: vscode.TextDocument, sourceMap: SourceMap, basePointer: string): vscode.Range {
+  const location = sourceMap.locateError(error, basePointer)
+  return location
+    ? new vscode.Range(document.positionAt(location.start), document.positionAt(location.end))
+    : new vscode.Range(0, 0, 0, 1)
+}
 
+/**
+ * Convert validation errors of one entity to VSCode diagnostics
+ *
+ * @param basePointer - Pointer of the entity within the document ('' for single-entity files)
+ */
+function validationErrorsToDiagnostics(errors: ValidationError[], document: vscode.TextDocument, sourceMap: SourceMap, basePointer: string): vscode.Diagnostic[] {
+  return errors.map(error => {
+    const range = validationErrorRange(error, document, sourceMap, basePointer)
     const diagnostic = new vscode.Diagnostic(
       range,
       error.message,
-      vscode.DiagnosticSeverity.Error
+      error.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
     )
-
     diagnostic.source = 'GTS'
     diagnostic.code = error.keyword
-    diagnostics.push(diagnostic)
-  }
-
-  return diagnostics
-}
-
-/**
- * Find the range of an error in the document based on instancePath and error details
- */
-function findErrorPosition(document: vscode.TextDocument, instancePath: string, error: ValidationError): vscode.Range | null {
-  const text = document.getText()
-
-  // Remove leading slash from instancePath (e.g., '/users/0/email' -> 'users/0/email')
-  const path = instancePath.replace(/^\//, '')
-
-  // For schema errors, find the object that references the missing schema
-  if (error.keyword === 'schema') {
-    console.log(`[GTS Validation] Schema error detected, path='${path}'`)
-
-    // If instancePath is empty, search by schemaId in params
-    if (!path && error.params && 'schemaId' in error.params) {
-      const schemaId = (error.params as any).schemaId as string
-      console.log(`[GTS Validation] Searching for type field with value: ${schemaId}`)
-      const position = findTypeFieldByValue(text, document, schemaId)
-      console.log(`[GTS Validation] findTypeFieldByValue returned:`, position)
-      if (position) {
-        return position
-      }
-    } else if (path) {
-      const position = findObjectAtPath(text, document, path)
-      console.log(`[GTS Validation] findObjectAtPath returned:`, position)
-      if (position) {
-        return position
-      }
-    }
-  }
-
-  // For additionalProperties errors, look for the actual property mentioned in params
-  if (error.keyword === 'additionalProperties' && error.params && 'additionalProperty' in error.params) {
-    const additionalProp = (error.params as any).additionalProperty
-    const searchPattern = new RegExp(`["']${escapeRegex(additionalProp)}["']\\s*:`, 'g')
-    const match = searchPattern.exec(text)
-    if (match) {
-      const startPos = document.positionAt(match.index + 1) // +1 to skip opening quote
-      const endPos = document.positionAt(match.index + 1 + additionalProp.length)
-      return new vscode.Range(startPos, endPos)
-    }
-  }
-
-  // For required property errors, find the parent object and place error at the opening brace
-  if (error.keyword === 'required' && error.params && 'missingProperty' in error.params) {
-    const missingProp = (error.params as any).missingProperty
-
-    // Try to find the parent object by navigating through the path
-    if (!path) {
-      // Error at root level - find first opening brace
-      const rootMatch = text.match(/\{/)
-      if (rootMatch && rootMatch.index !== undefined) {
-        const pos = document.positionAt(rootMatch.index)
-        return new vscode.Range(pos, pos.translate(0, 1))
-      }
-    } else {
-      // Find the object that should contain this property
-      const position = findObjectAtPath(text, document, path)
-      if (position) {
-        return position
-      }
-    }
-  }
-
-  // General case: try to find the property mentioned in the path
-  if (path) {
-    const segments = path.split('/')
-    const lastSegment = segments[segments.length - 1]
-
-    if (lastSegment && !/^\d+$/.test(lastSegment)) {
-      // Not an array index, try to find the property name
-      const searchPattern = new RegExp(`["']${escapeRegex(lastSegment)}["']\\s*:`, 'g')
-      const match = searchPattern.exec(text)
-      if (match) {
-        const startPos = document.positionAt(match.index + 1) // +1 to skip opening quote
-        const endPos = document.positionAt(match.index + 1 + lastSegment.length)
-        return new vscode.Range(startPos, endPos)
-      }
-    }
-  }
-
-  // Fallback: return null to use default position
-  return null
-}
-
-/**
- * Find a "type" field with a specific value in the JSON
- * Returns a range highlighting the "type" field name
- */
-function findTypeFieldByValue(text: string, document: vscode.TextDocument, typeValue: string): vscode.Range | null {
-  console.log(`[GTS Validation] Searching for "type" field with value: ${typeValue}`)
-
-  // Escape the typeValue for use in regex
-  const escapedValue = escapeRegex(typeValue)
-
-  // Search for: "type": "typeValue"
-  const searchPattern = new RegExp(`"type"\\s*:\\s*"${escapedValue}"`, 'g')
-  const match = searchPattern.exec(text)
-
-  if (match) {
-    // Highlight the "type" property name (not the value)
-    const typeKeyStart = match.index + 1 // +1 to skip opening quote
-    const typeKeyEnd = match.index + 5 // "type" is 4 characters, +1 for the quote
-
-    const startPos = document.positionAt(typeKeyStart)
-    const endPos = document.positionAt(typeKeyEnd)
-
-    console.log(`[GTS Validation] Found "type" field at line ${startPos.line}, col ${startPos.character}`)
-    return new vscode.Range(startPos, endPos)
-  }
-
-  console.log(`[GTS Validation] Did not find "type" field with value: ${typeValue}`)
-  return null
+    return diagnostic
+  })
 }
 
 /**
- * Find an object in the JSON at the given path (handles array indices)
- * Returns a range highlighting the object's "id" or "type" field, or opening brace
+ * Validate a document and update diagnostics
  */
-function findObjectAtPath(text: string, document: vscode.TextDocument, path: string): vscode.Range | null {
-  if (!path) {
-    // Root level - find first opening brace
-    const rootMatch = text.match(/\{/)
-    if (rootMatch && rootMatch.index !== undefined) {
-      const pos = document.positionAt(rootMatch.index)
-      return new vscode.Range(pos, pos.translate(0, 1))
-    }
-    return null
-  }
-
-  const segments = path.split('/')
-
-  // Check if we're dealing with an array index at the root or deeper level
-  if (segments.length === 1 && /^\d+$/.test(segments[0])) {
-    // Root-level array, e.g., path = "1" means second item in array
-    const arrayIndex = parseInt(segments[0], 10)
-    return findNthObjectInArray(text, document, arrayIndex)
+export async function validateOpenDocument(document: vscode.TextDocument) {
+  if (!isWorkspaceGtsFile(document)) {
+    return
   }
 
-  // For nested paths, navigate through the structure
-  // For now, handle the simple case of array indices
-  const lastSegment = segments[segments.length - 1]
-  if (/^\d+$/.test(lastSegment)) {
-    const arrayIndex = parseInt(lastSegment, 10)
-    return findNthObjectInArray(text, document, arrayIndex)
-  }
+  try {
+    console.log(`[GTS Validation] Validating: ${document.uri.fsPath}`)
 
-  // Try to find a property by name
-  const searchPattern = new RegExp(`["']${escapeRegex(lastSegment)}["']\\s*:\\s*\\{`, 'g')
-  const match = searchPattern.exec(text)
-  if (match) {
-    const pos = document.positionAt(match.index + 1)
-    const endPos = document.positionAt(match.index + 1 + lastSegment.length)
-    return new vscode.Range(pos, endPos)
+    // Apply the current (possibly unsaved) text to the shared registry; only affected entities are re-validated
+    const { registry } = await updateScanFile(toScanFile(document.uri.fsPath, document.getText()))
+    publishDiagnostics(document, registry)
+  } catch (error) {
+    console.error('[GTS Validation] ✗ Error validating document:', error)
+    diagnosticCollection.delete(document.uri)
   }
-
-  return null
 }
 
 /**
- * Find the Nth object in a root-level array
- * Highlights the object's "id" or "type" field, or opening brace
+ * Set the diagnostics of a document from the validation results in the registry
  */
-function findNthObjectInArray(text: string, document: vscode.TextDocument, index: number): vscode.Range | null {
-  console.log(`[GTS Validation] findNthObjectInArray looking for index=${index}`)
-  let braceCount = 0
-  let objectCount = 0
-  let inArray = false
-  let currentObjectStart = -1
-
-  for (let i = 0; i < text.length; i++) {
-    const char = text[i]
+function publishDiagnostics(document: vscode.TextDocument, registry: JsonRegistry) {
+  const fileName = path.basename(document.fileName)
+  const filePath = document.uri.fsPath
+  const sourceMap = createSourceMap(document.getText(), document.fileName)
+  const diagnostics: vscode.Diagnostic[] = []
 
-    if (char === '[' && braceCount === 0) {
-      inArray = true
-      console.log(`[GTS Validation] Found array start at position ${i}`)
-      continue
-    }
+  const invalid = registry.invalidFiles.get(filePath)
 
-    if (!inArray) continue
+  if (invalid?.validation && invalid.validation.errors.length > 0) {
+    diagnostics.push(...validationErrorsToDiagnostics(invalid.validation.errors, document, sourceMap, ''))
+  } else {
+    const fileObjs = registry.jsonFileObjs.get(filePath) ?? []
+    const fileSchemas = registry.jsonFileSchemas.get(filePath) ?? []
 
-    if (char === '{') {
-      if (braceCount === 0) {
-        // Start of a new object at array level
-        currentObjectStart = i
-        console.log(`[GTS Validation] Found object start at position ${i}, objectCount=${objectCount}`)
+    for (const e of [...fileObjs, ...fileSchemas]) {
+      if (e.validation && e.validation.errors.length > 0) {
+        diagnostics.push(...validationErrorsToDiagnostics(e.validation.errors, document, sourceMap, entityPointer(e)))
       }
-      braceCount++
-    } else if (char === '}') {
-      braceCount--
-      if (braceCount === 0) {
-        // End of object at array level
-        console.log(`[GTS Validation] Object ${objectCount} ended at position ${i}`)
-        if (objectCount === index) {
-          // Found the target object, now find its "id" or "type" field
-          const objectText = text.substring(currentObjectStart, i + 1)
-          console.log(`[GTS Validation] Found target object at index ${index}, text length=${objectText.length}`)
-
-          // Try to find "id" field first
-          const idMatch = objectText.match(/"id"\s*:\s*"([^"]+)"/)
-          if (idMatch && idMatch.index !== undefined) {
-            const idStartPos = document.positionAt(currentObjectStart + idMatch.index + 1) // +1 to skip opening quote
-            const idEndPos = document.positionAt(currentObjectStart + idMatch.index + 3) // "id" length
-            console.log(`[GTS Validation] Highlighting "id" field at line ${idStartPos.line}`)
-            return new vscode.Range(idStartPos, idEndPos)
-          }
-
-          // Try "type" field as fallback
-          const typeMatch = objectText.match(/"type"\s*:\s*"([^"]+)"/)
-          if (typeMatch && typeMatch.index !== undefined) {
-            const typeStartPos = document.positionAt(currentObjectStart + typeMatch.index + 1)
-            const typeEndPos = document.positionAt(currentObjectStart + typeMatch.index + 5) // "type" length
-            console.log(`[GTS Validation] Highlighting "type" field at line ${typeStartPos.line}`)
-            return new vscode.Range(typeStartPos, typeEndPos)
-          }
+    }
 
-          // Fallback: highlight opening brace
-          const pos = document.positionAt(currentObjectStart)
-          console.log(`[GTS Validation] Highlighting opening brace at line ${pos.line}`)
-          return new vscode.Range(pos, pos.translate(0, 1))
-        }
-        objectCount++
+    // Flag breaking changes against the previous minor version of each schema
+    for (const s of fileSchemas) {
+      const report = registry.checkMinorVersionCompatibility(s.id)
+      if (report && !report.compatible) {
+        diagnostics.push(...validationErrorsToDiagnostics(report.toValidationErrors(), document, sourceMap, entityPointer(s)))
       }
     }
   }
 
-  console.log(`[GTS Validation] Did not find object at index ${index}, only found ${objectCount} objects`)
-  return null
+  if (diagnostics.length > 0) {
+    diagnosticCollection.set(document.uri, diagnostics)
+    console.log(`[GTS Validation] ✗ Got ${diagnostics.length} GTS diagnostics errors for ${fileName} - Errors:`, diagnostics.map(d => ({ message: d.message, range: d.range })))
+  } else {
+    diagnosticCollection.delete(document.uri)
+    console.log(`[GTS Validation] ✓ No errors, cleared diagnostics for ${fileName}`)
+  }
 }
 
 /**
- * Escape special regex characters
+ * Validate all open documents one after another; concurrent runs would race on the entities' validation results
  */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+export async function validateOpenDocuments() {
+  for (const doc of vscode.workspace.textDocuments) {
+    await validateOpenDocument(doc)
+  }
 }
 
 /**
- * Validate a document and update diagnostics
+ * Update the diagnostics of the open documents among the given files after the registry
+ * re-validated them. Their text is already in the registry, so nothing is re-validated here.
  */
-export async function validateOpenDocument(document: vscode.TextDocument) {
-  if (!isGtsCandidateFile(document)) {
-    return
-  }
-
-  try {
-    const text = document.getText()
-    const fileName = path.basename(document.fileName)
-    const filePath = document.uri.fsPath
-
-    console.log(`[GTS Validation] Validating: ${filePath}`)
-
-    // Parse the document content to JSON
-    let content: any
+export function refreshOpenDocumentDiagnostics(registry: JsonRegistry, filePaths: ReadonlySet<string>) {
+  for (const doc of vscode.workspace.textDocuments) {
+    if (!isWorkspaceGtsFile(doc) || !filePaths.has(doc.uri.fsPath)) continue
     try {
-      content = parseJSONC(text)
-    } catch (parseError: any) {
-      console.log(`[GTS Validation] Failed to parse JSON: ${parseError.message}`)
-      // If parsing fails, store as text and let registry handle it
-      content = text
+      publishDiagnostics(doc, registry)
+    } catch (error) {
+      console.error('[GTS Validation] ✗ Error updating diagnostics:', error)
+      diagnosticCollection.delete(doc.uri)
     }
-
-    const files = getLastScanFiles()
-
-    const withoutCurrent = files.filter(f => f.path !== filePath)
-    const merged = [...withoutCurrent, { path: filePath, name: fileName, content }]
-
-    const registry = new JsonRegistry()
-    console.log(`[GTS Validation] Ingesting ${merged.length} files into GTS registry...`)
-    await registry.ingestFiles(merged, DEFAULT_GTS_CONFIG)
-
-    let errors: ValidationError[] = []
-
-    const invalid = registry.invalidFiles.get(filePath)
-
-    if (invalid?.validation && invalid.validation.errors.length > 0) {
-      errors = invalid.validation.errors
-    } else {
-      const fileObjs = Array.from(registry.jsonObjs.values()).filter(o => o.file?.path === filePath)
-      const fileSchemas = Array.from(registry.jsonSchemas.values()).filter(s => s.file?.path === filePath)
-
-      for (const e of [...fileObjs, ...fileSchemas]) {
-        if (e.validation && e.validation.errors.length > 0) {
-          errors.push(...e.validation.errors)
-        }
-      }
-    }
-
-    if (errors.length > 0) {
-      const diagnostics = validationErrorsToDiagnostics(errors, document)
-      diagnosticCollection.set(document.uri, diagnostics)
-      console.log(`[GTS Validation] ✗ Got ${diagnostics.length} GTS diagnostics errors for ${fileName} - Errors:`, diagnostics.map(d => ({ message: d.message, range: d.range })))
-    } else {
-      diagnosticCollection.delete(document.uri)
-      console.log(`[GTS Validation] ✓ No errors, cleared diagnostics for ${fileName}`)
-    }
-  } catch (error) {
-    console.error('[GTS Validation] ✗ Error validating document:', error)
-    diagnosticCollection.delete(document.uri)
   }
 }
 
@@ -362,14 +134,12 @@ export function initValidation(context: vscode.ExtensionContext) {
     // Validate all open documents on activation
     const openDocs = vscode.workspace.textDocuments
     console.log(`[GTS Validation] Validating ${openDocs.length} open documents on activation`)
-    openDocs.forEach(doc => {
-      void validateOpenDocument(doc)
-    })
+    void validateOpenDocuments()
 
     // Validate document when it's opened
     context.subscriptions.push(
       vscode.workspace.onDidOpenTextDocument(doc => {
-        if (!isGtsCandidateFile(doc)) return
+        if (!isWorkspaceGtsFile(doc)) return
         console.log(`[GTS Validation] Document opened: ${doc.fileName} (language: ${doc.languageId})`)
         void validateOpenDocument(doc)
       })
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode'
+import * as path from 'path'
+import { JsonRegistry, JsonEntity, ValidationResult, tryParseGtsId } from '@gts/shared'
+
+export type GtsTreeNodeKind = 'vendor' | 'package' | 'namespace' | 'type' | 'version' | 'instance' | 'otherInstances' | 'invalidFiles' | 'invalidFile'
+
+// contextValue of nodes backed by an entity / a file, used by the view/item/context menus
+const ENTITY_CONTEXT = 'gtsEntity'
+const FILE_CONTEXT = 'gtsFile'
+
+const KIND_ICONS: Record<GtsTreeNodeKind, string> = {
+  vendor: 'organization',
+  package: 'package',
+  namespace: 'symbol-namespace',
+  type: 'symbol-class',
+  version: 'versions',
+  instance: 'symbol-object',
+  otherInstances: 'question',
+  invalidFiles: 'error',
+  invalidFile: 'file'
+}
+
+/**
+ * Number of problems reported as errors (warnings are not counted)
+ */
+function errorCount(validation?: ValidationResult): number {
+  return validation?.errors.filter(e => e.severity !== 'warning').length ?? 0
+}
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * A node of the GTS workspace tree. Entity nodes carry the GTS ID and the file they are defined in.
+ */
+export class GtsTreeNode extends vscode.TreeItem {
+  kind: GtsTreeNodeKind
+  children: GtsTreeNode[] = []
+  gtsId?: string
+  filePath?: string
+
+  constructor(kind: GtsTreeNodeKind, label: string) {
+    super(label, vscode.TreeItemCollapsibleState.None)
+    this.kind = kind
+    this.iconPath = new vscode.ThemeIcon(KIND_ICONS[kind])
+  }
+
+  /**
+   * Child with the given label, created on first use
+   */
+  child(kind: GtsTreeNodeKind, label: string): GtsTreeNode {
+    let node = this.children.find(c => c.kind === kind && c.label === label)
+    if (!node) {
+      node = new GtsTreeNode(kind, label)
+      this.children.push(node)
+    }
+    return node
+  }
+
+  /**
+   * Attach the entity (or, for missing schemas, just the ID) this node stands for
+   */
+  setEntity(id: string, entity?: JsonEntity): void {
+    this.gtsId = id
+    this.tooltip = id
+    if (!entity?.file) {
+      this.description = 'not found'
+      this.iconPath = new vscode.ThemeIcon('warning')
+      return
+    }
+    this.filePath = entity.file.path
+    this.contextValue = ENTITY_CONTEXT
+    this.tooltip = new vscode.MarkdownString(`\`${id}\`\n\n${entity.file.path}${entity.description ? `\n\n${entity.description}` : ''}`)
+    this.command = { command: 'vscode.open', title: 'Open File', arguments: [vscode.Uri.file(entity.file.path)] }
+    const errors = errorCount(entity.validation)
+    if (errors > 0) {
+      this.description = [this.description, pluralize(errors, 'error')].filter(Boolean).join(' · ')
+      this.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground'))
+    }
+  }
+
+  /**
+   * Sort children recursively (versions numerically, everything else by label) and set collapsible states
+   */
+  finalize(): void {
+    this.children.sort((a, b) => this.compare(a, b))
+    for (const child of this.children) child.finalize()
+    if (this.children.length > 0) {
+      this.collapsibleState = this.kind === 'vendor'
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+    }
+  }
+
+  private compare(a: GtsTreeNode, b: GtsTreeNode): number {
+    const aId = a.kind === 'version' && a.gtsId ? tryParseGtsId(a.gtsId)?.lastSegment : undefined
+    const bId = b.kind === 'version' && b.gtsId ? tryParseGtsId(b.gtsId)?.lastSegment : undefined
+    if (aId && bId && aId.verMajor !== bId.verMajor) return aId.verMajor - bId.verMajor
+    if (aId && bId && aId.verMinor !== bId.verMinor) return (aId.verMinor ?? -1) - (bId.verMinor ?? -1)
+    return String(a.label).localeCompare(String(b.label))
+  }
+}
+
+/**
+ * Tree of the scanned workspace: GTS types grouped by vendor, package, namespace and type,
+ * one node per version with its instances underneath, and the files that fail to validate.
+ */
+export class GtsWorkspaceTreeProvider implements vscode.TreeDataProvider<GtsTreeNode> {
+  static readonly viewId = 'gts.workspaceTree'
+
+  private roots: GtsTreeNode[] = []
+  private readonly changeEmitter = new vscode.EventEmitter<GtsTreeNode | undefined>()
+  readonly onDidChangeTreeData = this.changeEmitter.event
+
+  getTreeItem(element: GtsTreeNode): vscode.TreeItem {
+    return element
+  }
+
+  getChildren(element?: GtsTreeNode): GtsTreeNode[] {
+    return element ? element.children : this.roots
+  }
+
+  /**
+   * Rebuild the tree from the registry
+   */
+  refresh(registry: JsonRegistry): void {
+    const vendors = new GtsTreeNode('vendor', '')
+    const versionNodes = new Map<string, GtsTreeNode>()
+
+    // Version node of a type ID, grouped by its own (last) segment
+    const versionNode = (id: string): GtsTreeNode | undefined => {
+      let node = versionNodes.get(id)
+      if (node) return node
+      const gtsId = tryParseGtsId(id)
+      if (!gtsId?.isType) return undefined
+      const segment = gtsId.lastSegment
+      node = vendors
+        .child('vendor', segment.vendor)
+        .child('package', segment.package)
+        .child('namespace', segment.namespace)
+        .child('type', segment.type)
+        .child('version', segment.version)
+      // Derived types with the same name and version under different base types get their own nodes
+      if (node.gtsId && node.gtsId !== id) {
+        node = new GtsTreeNode('version', segment.version)
+        vendors.child('vendor', segment.vendor).child('package', segment.package)
+          .child('namespace', segment.namespace).child('type', segment.type).children.push(node)
+      }
+      if (gtsId.parentTypeId) node.description = `extends ${gtsId.parentTypeId}`
+      node.setEntity(id, registry.jsonSchemas.get(id))
+      versionNodes.set(id, node)
+      return node
+    }
+
+    for (const schema of registry.jsonSchemas.values()) {
+      versionNode(schema.id)
+    }
+
+    const otherInstances = new GtsTreeNode('otherInstances', 'Instances without a GTS type')
+    for (const obj of registry.jsonObjs.values()) {
+      const schemaId = obj.resolvedSchemaId || obj.schemaId
+      const parent = (schemaId ? versionNode(schemaId) : undefined) ?? otherInstances
+      const node = new GtsTreeNode('instance', obj.id || obj.label || '')
+      node.setEntity(obj.id, obj)
+      parent.children.push(node)
+    }
+
+    // Files that could not be parsed, and files whose entities have validation errors
+    const fileErrors = new Map<string, number>()
+    for (const file of registry.invalidFiles.values()) {
+      fileErrors.set(file.path, Math.max(1, errorCount(file.validation)))
+    }
+    for (const entity of [...registry.jsonSchemas.values(), ...registry.jsonObjs.values()]) {
+      const errors = errorCount(entity.validation)
+      if (entity.file && errors > 0) {
+        fileErrors.set(entity.file.path, (fileErrors.get(entity.file.path) ?? 0) + errors)
+      }
+    }
+    const invalidFiles = new GtsTreeNode('invalidFiles', 'Invalid files')
+    invalidFiles.description = String(fileErrors.size)
+    for (const [filePath, errors] of fileErrors) {
+      const node = new GtsTreeNode('invalidFile', path.basename(filePath))
+      node.filePath = filePath
+      node.contextValue = FILE_CONTEXT
+      node.resourceUri = vscode.Uri.file(filePath)
+      node.description = pluralize(errors, 'error')
+      node.tooltip = filePath
+      node.command = { command: 'vscode.open', title: 'Open File', arguments: [node.resourceUri] }
+      invalidFiles.children.push(node)
+    }
+
+    vendors.finalize()
+    otherInstances.finalize()
+    invalidFiles.finalize()
+    this.roots = [
+      ...vendors.children,
+      ...(otherInstances.children.length > 0 ? [otherInstances] : []),
+      ...(invalidFiles.children.length > 0 ? [invalidFiles] : [])
+    ]
+    this.changeEmitter.fire(undefined)
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose()
+  }
+}
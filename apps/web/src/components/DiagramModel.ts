@@ -2,10 +2,10 @@ import dagre from '@dagrejs/dagre'
 import { AppConfig } from '@/lib/config'
 import { debug } from '@/lib/debug'
 import type { Viewport } from '@/lib/types'
-import { getEdgePriority, getEdgeStyle } from '@/lib/edgeConfig'
+import { getEdgePriority, getEdgeStyle, getCycleEdgeStyle } from '@/lib/edgeConfig'
 import { SchemaNodeModel, type NodeKind } from './SchemaNodeModel'
 import { SchemaEdgeModel, type EdgeKind } from './SchemaEdgeModel'
-import type { JsonObj, JsonSchema } from '@gts/shared'
+import { tryParseGtsId, type JsonObj, type JsonSchema, type ReferenceCycle } from '@gts/shared'
 import type { Edge as RFEdge, Node as RFNode } from 'reactflow'
 import type { GlobalViewState } from '@/lib/diagramRegistry'
 
@@ -13,6 +13,8 @@ export class DiagramModel {
   private root: JsonObj | JsonSchema
   private jsonSchemas: JsonSchema[]
   private jsonObjs: JsonObj[]
+  private cycles: ReferenceCycle[]
+  private resolvedVersions: ReadonlyMap<string, string>
   private snapshotChecked: boolean
   private globalViewState: GlobalViewState
 
@@ -33,11 +35,15 @@ export class DiagramModel {
     root: JsonObj | JsonSchema,
     jsonSchemas: JsonSchema[],
     jsonObjs: JsonObj[],
-    globalViewState: GlobalViewState
+    globalViewState: GlobalViewState,
+    cycles: ReferenceCycle[] = [],
+    resolvedVersions: ReadonlyMap<string, string> = new Map()
   ) {
     this.root = root
     this.jsonSchemas = jsonSchemas
     this.jsonObjs = jsonObjs
+    this.cycles = cycles
+    this.resolvedVersions = resolvedVersions
     this.globalViewState = globalViewState
     this.snapshotChecked = false
 
@@ -130,9 +136,20 @@ export class DiagramModel {
     if (s) return { kind: 'schema', value: s }
     const j = this.jsonObjs.find(x => x.id === id)
     if (j) return { kind: 'json', value: j }
+    // Major-only reference: the minor version the registry picked while validating
+    const resolvedId = this.resolvedVersions.get(id)
+    const r = resolvedId ? this.jsonSchemas.find(x => x.id === resolvedId) : undefined
+    if (r) return { kind: 'schema', value: r }
     return null
   }
 
+  // Edge label noting the concrete version picked for a major-only reference
+  private resolvedEdgeName(name: string, requestedId: string, resolvedId: string): string {
+    if (requestedId === resolvedId) return name
+    const version = tryParseGtsId(resolvedId)?.lastSegment.version
+    return version ? `${name} (${version})` : name
+  }
+
   private ensureNode(id: string): SchemaNodeModel | null {
     if (this.nodeMap.has(id)) return this.nodeMap.get(id)!
     const ent = this.findEntity(id)
@@ -220,8 +237,8 @@ export class DiagramModel {
     return getEdgePriority(relationship)
   }
 
-  private styleFor(relationship: EdgeKind) {
-    return getEdgeStyle(relationship)
+  private styleFor(edge: SchemaEdgeModel) {
+    return edge.inCycle ? getCycleEdgeStyle(edge.kind) : getEdgeStyle(edge.kind)
   }
 
   private addEdge(source: SchemaNodeModel, target: SchemaNodeModel, relationship: EdgeKind, name: string) {
@@ -229,7 +246,8 @@ export class DiagramModel {
     if (source.id === target.id) return
     const id = `${source.id}|${target.id}|${relationship}|${name}`
     // Create a unique edge instance for this diagram
-    const e = new SchemaEdgeModel({ id, source, target, kind: relationship, name })
+    const inCycle = this.cycles.some(c => c.hasEdge(source.id, target.id))
+    const e = new SchemaEdgeModel({ id, source, target, kind: relationship, name, inCycle })
     this.edgeModels.push(e)
     this.edgeMap.set(id, e)
     // also attach to source node for quick lookup
@@ -248,27 +266,38 @@ export class DiagramModel {
 
     if (ent.kind === 'schema') {
       const schema = ent.value as JsonSchema
+      // A chained schema ID implements its base type (the chain without the last segment)
+      const parentId = tryParseGtsId(schema.id)?.parentTypeId
+      const parentEnt = parentId ? this.findEntity(parentId) : null
+      if (parentId && parentEnt) {
+        const parentNode = this.ensureNode(parentEnt.value.id)
+        if (parentNode) {
+          this.processElement(parentEnt.value.id, visited)
+          this.addEdge(sourceNode, parentNode, 'implements', this.resolvedEdgeName('implements', parentId, parentEnt.value.id))
+        }
+      }
       const refs = (schema.schemaRefs || []).map((r: any) => ({ id: typeof r === 'string' ? r : r.id, sourcePath: typeof r === 'string' ? '$ref' : r.sourcePath }))
-      for (const { id: targetId, sourcePath } of refs) {
+      for (const { id: refId, sourcePath } of refs) {
         // Skip self references
-        if (targetId === elementId) continue
-        const targetEnt = this.findEntity(targetId)
+        if (refId === elementId) continue
+        const targetEnt = this.findEntity(refId)
         if (!targetEnt) continue
+        const targetId = targetEnt.value.id
         const targetNode = this.ensureNode(targetId)
         if (!targetNode) continue
         this.processElement(targetId, visited)
-        this.addEdge(sourceNode, targetNode, 'ref', sourcePath)
+        this.addEdge(sourceNode, targetNode, 'ref', this.resolvedEdgeName(sourcePath, refId, targetId))
       }
     } else {
       const json = ent.value as JsonObj
       if (json.schemaId) {
-        const targetId = json.schemaId
-        const targetEnt = this.findEntity(targetId)
+        const targetEnt = this.findEntity(json.schemaId)
         if (targetEnt) {
+          const targetId = targetEnt.value.id
           const targetNode = this.ensureNode(targetId)
           if (targetNode) {
             this.processElement(targetId, visited)
-            this.addEdge(sourceNode, targetNode, 'schema', 'schema')
+            this.addEdge(sourceNode, targetNode, 'schema', this.resolvedEdgeName('schema', json.schemaId, targetId))
           }
         }
       }
@@ -276,14 +305,15 @@ export class DiagramModel {
 
     // GTS links for both kinds
     const gts = (ent.kind === 'schema' ? (ent.value as JsonSchema).gtsRefs : (ent.value as JsonObj).gtsRefs) || []
-    for (const { id: targetId, sourcePath } of gts as any[]) {
-      const targetEnt = this.findEntity(targetId)
-      if (!targetEnt || targetId === elementId) continue
+    for (const { id: refId, sourcePath } of gts as any[]) {
+      const targetEnt = this.findEntity(refId)
+      if (!targetEnt || refId === elementId) continue
+      const targetId = targetEnt.value.id
       const targetNode = this.ensureNode(targetId)
       if (!targetNode) continue
       this.processElement(targetId, visited)
       const rel: EdgeKind = ent.kind === 'schema' ? 'gts' : 'gts-json'
-      this.addEdge(sourceNode, targetNode, rel, sourcePath || '')
+      this.addEdge(sourceNode, targetNode, rel, this.resolvedEdgeName(sourcePath || '', refId, targetId))
     }
   }
 
@@ -426,7 +456,7 @@ export class DiagramModel {
     for (const e of chosenEdges) {
       // Final guard against self edges
       if (e.sourceId === e.targetId) continue
-      const style = this.styleFor(e.kind)
+      const style = this.styleFor(e)
       // Fallback if distribution didn't set handles
       if (!e.sourceHandle) { e.sourceHandle = 'right-2'; e.origSourceHandle = 'right-2' }
       if (!e.targetHandle) { e.targetHandle = 'left-2'; e.origTargetHandle = 'left-2' }
@@ -1,9 +1,9 @@
 import { useState, useRef, useEffect, useMemo } from 'react'
-import { Search, CheckCircle, AlertCircle, RefreshCw, FolderOpen, ChevronDown, ChevronRight } from 'lucide-react'
+import { Search, CheckCircle, AlertCircle, AlertTriangle, RefreshCw, FolderOpen, ChevronDown, ChevronRight } from 'lucide-react'
 import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { MenuPanel, MenuHeader, MenuTitle, MenuContent, MenuItem, MenuItemContent } from '@/components/ui/menu'
-import { JsonObj, JsonSchema, JsonFile } from '@gts/shared'
+import { JsonObj, JsonSchema, JsonFile, type JsonRegistry } from '@gts/shared'
 import { renderGtsNameWithBreak } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Popup, PopupTrigger, PopupContent } from '@/components/ui/popup'
@@ -22,13 +22,16 @@ interface EntityListProps {
   onOpen?: () => void
   // Expose filtering state for unified keyboard navigation
   onFilteredEntitiesChange?: (entities: Array<Entity | JsonFile>) => void
+  // Registry used to list the entities referencing the selected one
+  registry?: JsonRegistry
 }
 
-export function EntityList({ jsonObjs, schemas, invalidFiles, selectedEntity: selectedEntity, selectedInvalidFile, onEntitySelect: onEntitySelect, onInvalidFileSelect, onRefresh, onOpen, onFilteredEntitiesChange }: EntityListProps) {
+export function EntityList({ jsonObjs, schemas, invalidFiles, selectedEntity: selectedEntity, selectedInvalidFile, onEntitySelect: onEntitySelect, onInvalidFileSelect, onRefresh, onOpen, onFilteredEntitiesChange, registry }: EntityListProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [openJsonList, setOpenJsonList] = useState(true)
   const [openSchemaList, setOpenSchemaList] = useState(true)
   const [openInvalidList, setOpenInvalidList] = useState(true)
+  const [openUsageList, setOpenUsageList] = useState(true)
   const panelRef = useRef<HTMLDivElement | null>(null)
 
   // Get capabilities from the adapter
@@ -43,9 +46,12 @@ export function EntityList({ jsonObjs, schemas, invalidFiles, selectedEntity: se
     const validation = entity.validation
     const isSchema = entity.isSchema
 
-    if (validation && validation.errors.length > 0) {
+    if (validation && validation.errors.some(e => e.severity !== 'warning')) {
       return <AlertCircle className="h-4 w-4 bg-red-500 text-white rounded-full" />
     }
+    if (validation && validation.errors.length > 0) {
+      return <AlertTriangle className="h-4 w-4 text-amber-500" />
+    }
 
     return isSchema
       ? <CheckCircle className="h-4 w-4 text-blue-500" />
@@ -62,6 +68,20 @@ export function EntityList({ jsonObjs, schemas, invalidFiles, selectedEntity: se
     invalidFiles.filter(f => match(f.name, f.path))
   ), [invalidFiles, searchTermLc])
 
+  // Impact analysis for the selected entity: direct referrers, transitive count and instances of a schema
+  const usage = useMemo(() => {
+    if (!registry || !selectedEntity) return null
+    const lookup = (id: string): Entity | undefined => registry.jsonSchemas.get(id) || registry.jsonObjs.get(id)
+    const referrers = registry.getReferrers(selectedEntity.id)
+      .map(e => lookup(e.id))
+      .filter((e): e is Entity => !!e)
+    return {
+      referrers,
+      transitiveCount: registry.getTransitiveReferrers(selectedEntity.id).length,
+      instanceCount: selectedEntity.isSchema ? registry.getInstancesOf(selectedEntity.id).length : null
+    }
+  }, [registry, selectedEntity, jsonObjs, schemas])
+
   // Build the visible linear list in render order for keyboard navigation
   const visibleEntities: Array<Entity | JsonFile> = useMemo(() => {
     const list: Array<Entity | JsonFile> = []
@@ -276,6 +296,47 @@ export function EntityList({ jsonObjs, schemas, invalidFiles, selectedEntity: se
                 )}
               </>
             )}
+
+            {/* Entities referencing the selected entity */}
+            {usage && (
+              <>
+                <div
+                  className="mt-2 flex items-center justify-between px-2 py-1 text-xs uppercase tracking-wide text-muted-foreground cursor-pointer select-none"
+                  onClick={() => setOpenUsageList(v => !v)}
+                  role="button"
+                  aria-expanded={openUsageList}
+                  title={`${usage.transitiveCount} entities reference the selected entity directly or transitively`}
+                >
+                  <div className="flex items-center gap-1">
+                    {openUsageList ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    <span>Referenced By</span>
+                  </div>
+                  <span className="text-[10px]">{usage.referrers.length} / {usage.transitiveCount}</span>
+                </div>
+                {openUsageList && (
+                  <>
+                    {usage.instanceCount !== null && (
+                      <div className="px-2 pb-1 text-xs text-muted-foreground">
+                        {usage.instanceCount} instance{usage.instanceCount === 1 ? '' : 's'} (incl. derived types)
+                      </div>
+                    )}
+                    {usage.referrers.map((e) => (
+                      <MenuItem
+                        key={e.id}
+                        entityType={e.isSchema ? 'schema' : 'json'}
+                        onClick={() => onEntitySelect(e)}
+                      >
+                        {getEntityIcon(e)}
+                        <MenuItemContent html={renderGtsNameWithBreak(e.label || e.id)} />
+                      </MenuItem>
+                    ))}
+                    {usage.referrers.length === 0 && (
+                      <div className="text-center text-muted-foreground py-4">Not referenced</div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
           </div>
         </ScrollArea>
       </MenuContent>
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react'
+import { CheckCircle, AlertCircle, Copy } from 'lucide-react'
+import type { JsonRegistry, GeneratedExample } from '@gts/shared'
+import { Modal } from '@/components/ui/modal'
+import { Button } from '@/components/ui/button'
+import { JsonCode } from '@/components/JsonCode'
+
+interface ExampleModalProps {
+  open: boolean
+  onClose: () => void
+  registry: JsonRegistry | null
+  schemaId: string
+}
+
+/**
+ * Shows an example instance generated from a schema, with the result of validating it
+ */
+export function ExampleModal({ open, onClose, registry, schemaId }: ExampleModalProps) {
+  const [example, setExample] = useState<GeneratedExample | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [requiredOnly, setRequiredOnly] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    if (!open || !registry) return
+    let cancelled = false
+    setError(null)
+    registry.generateExample(schemaId, { includeOptional: !requiredOnly })
+      .then(result => {
+        if (cancelled) return
+        if (result) setExample(result)
+        else setError(`Schema not found: ${schemaId}`)
+      })
+      .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)) })
+    return () => { cancelled = true }
+  }, [open, registry, schemaId, requiredOnly])
+
+  const code = example ? JSON.stringify(example.instance, null, 2) : ''
+  const errors = example?.validation?.errors ?? []
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch {
+      // Clipboard not available (e.g. insecure context)
+    }
+  }
+
+  return (
+    <Modal open={open} onClose={onClose} className="w-[70vw] h-[80vh] flex flex-col">
+      <div className="p-4 pr-14 border-b">
+        <div className="text-base font-semibold">Example instance</div>
+        <div className="text-xs text-muted-foreground truncate">{schemaId}</div>
+      </div>
+      <div className="px-4 py-2 flex items-center justify-between border-b text-sm">
+        <div className="flex items-center space-x-2">
+          {error ? null : !example?.validation ? (
+            <span className="text-muted-foreground">Not validated in this environment</span>
+          ) : errors.length === 0 ? (
+            <><CheckCircle className="h-4 w-4 text-green-500" /><span>Valid against the schema</span></>
+          ) : (
+            <><AlertCircle className="h-4 w-4 text-red-500" /><span>{errors.length} validation error{errors.length === 1 ? '' : 's'}</span></>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <label className="flex items-center space-x-1 text-xs cursor-pointer">
+            <input type="checkbox" checked={requiredOnly} onChange={(e) => setRequiredOnly(e.target.checked)} />
+            <span>Required properties only</span>
+          </label>
+          <Button variant="outline" size="sm" onClick={handleCopy} disabled={!example}>
+            <Copy className="h-4 w-4 mr-2" />
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+        </div>
+      </div>
+      {error ? (
+        <div className="p-4 text-sm text-red-700">{error}</div>
+      ) : (
+        <div className="flex-1 overflow-auto p-4 select-text cursor-text">
+          {errors.length > 0 && (
+            <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded">
+              {errors.map((e, index) => (
+                <div key={index} className="text-xs text-red-700">
+                  <span className="font-medium">{e.instancePath || '/'}</span>: {e.message}
+                  <span className="text-red-500 ml-1">({e.keyword})</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {example && <JsonCode code={code} registry={registry} />}
+        </div>
+      )}
+    </Modal>
+  )
+}
@@ -1,7 +1,7 @@
 import type { CSSProperties } from 'react'
 import { Highlight, themes } from 'prism-react-renderer'
 import type { Language } from 'prism-react-renderer'
-import { GTS_COLORS, analyzeGtsIdForStyling, JsonRegistry, type GtsStyledSegment, type ValidationIssues, GTS_REGEX, findSimilarEntityIds } from '@gts/shared'
+import { GTS_COLORS, analyzeGtsIdForStyling, JsonRegistry, type GtsStyledSegment, type ValidationIssues, GTS_REGEX, findSimilarEntityIds, positionAt } from '@gts/shared'
 import { Popup, PopupTrigger, PopupContent } from '@/components/ui/popup'
 
 interface JsonCodeProps {
@@ -19,14 +19,14 @@ export function JsonCode({ code, language = 'json', className, registry = null,
   const errorLineMessages = new Map<number, string[]>()
   if (validationIssues) {
     validationIssues.forEach((issue) => {
-      if (issue.type === 'line') {
-        // Add all lines in the range
-        // lineStart and lineEnd are 1-based and inclusive
-        for (let lineNum = issue.lineStart; lineNum <= issue.lineEnd; lineNum++) {
-          const messages = errorLineMessages.get(lineNum) || []
-          messages.push(issue.message)
-          errorLineMessages.set(lineNum, messages)
-        }
+      // lineStart and lineEnd are 1-based and inclusive; offset issues cover the lines of their range
+      const lineStart = issue.type === 'line' ? issue.lineStart : positionAt(safeCode, issue.start).line + 1
+      const lineEnd = issue.type === 'line' ? issue.lineEnd : positionAt(safeCode, Math.max(issue.start, issue.end - 1)).line + 1
+      // Add all lines in the range
+      for (let lineNum = lineStart; lineNum <= lineEnd; lineNum++) {
+        const messages = errorLineMessages.get(lineNum) || []
+        messages.push(issue.message)
+        errorLineMessages.set(lineNum, messages)
       }
     })
   }
@@ -349,6 +349,16 @@ function PropertyItem({ property, level, pathKey, sectionStates, onToggleSection
                   ))}
                 </div>
               )}
+              {property.sources && property.sources.length > 0 && (
+                <div className="text-[10px] text-muted-foreground pb-1" title="Schemas defining this property">
+                  from {property.sources.map((source, index) => (
+                    <span key={source}>
+                      {index > 0 && ', '}
+                      {renderGtsValue(source, registry)}
+                    </span>
+                  ))}
+                </div>
+              )}
               {hasError && (
                 <div className="text-xs text-red-700 mt-1 px-1.5 py-0.5 bg-red-100 rounded border border-red-200">
                   {propertyErrors.map((error, idx) => (
@@ -237,7 +237,7 @@ export const SchemaDiagram = forwardRef<SchemaDiagramHandle, SchemaDiagramProps>
   }, [])
 
   function getOrCreateDiagram(): DiagramModel {
-    if (!selectedEntity) return new DiagramModel(selectedEntity, jsonSchemas || [], jsonObjs || [], diagramRegistry.getViewState())
+    if (!selectedEntity) return new DiagramModel(selectedEntity, jsonSchemas || [], jsonObjs || [], diagramRegistry.getViewState(), registry?.cycles, registry?.resolvedVersions)
 
     let d = diagramRegistry.get(selectedEntity.id)
 
@@ -263,7 +263,7 @@ export const SchemaDiagram = forwardRef<SchemaDiagramHandle, SchemaDiagramProps>
 
     debug.diagram(`Creating new diagram for ${selectedEntity.id} with global preferences: expanded=${shouldExpandRoot}, rawView=${shouldUseRawView}`)
 
-    d = new DiagramModel(selectedEntity, jsonSchemas || [], jsonObjs || [], diagramRegistry.getViewState())
+    d = new DiagramModel(selectedEntity, jsonSchemas || [], jsonObjs || [], diagramRegistry.getViewState(), registry?.cycles, registry?.resolvedVersions)
     diagramRegistry.set(selectedEntity.id, d)
 
     debug.diagram(`Created new layout for ${selectedEntity.id}: ${d.nodes.length} nodes and ${d.edges.length} edges`)
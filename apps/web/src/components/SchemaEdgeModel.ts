@@ -2,7 +2,7 @@ import { SchemaNodeModel } from './SchemaNodeModel'
 import { debug } from '@/lib/debug'
 import { handleIdToApi } from '@/lib/handleUtils'
 
-export type EdgeKind = 'ref' | 'schema' | 'gts' | 'gts-json' | 'other'
+export type EdgeKind = 'implements' | 'ref' | 'schema' | 'gts' | 'gts-json' | 'other'
 
 export class SchemaEdgeModel {
   id: string
@@ -10,6 +10,8 @@ export class SchemaEdgeModel {
   target: SchemaNodeModel
   kind: EdgeKind
   name?: string
+  // True if source -> target is part of a reference cycle
+  inCycle: boolean
   sourceHandle: string
   targetHandle: string
   // Original handles before any dragging
@@ -28,6 +30,7 @@ export class SchemaEdgeModel {
     target: SchemaNodeModel
     kind: EdgeKind
     name?: string
+    inCycle?: boolean
     sourceHandle?: string
     targetHandle?: string
     labelPosition?: number
@@ -38,6 +41,7 @@ export class SchemaEdgeModel {
     this.target = params.target
     this.kind = params.kind
     this.name = params.name
+    this.inCycle = params.inCycle ?? false
     this.sourceHandle = params.sourceHandle || 'right-2'
     this.targetHandle = params.targetHandle || 'left-2'
     this.labelPosition = params.labelPosition ?? 0.5
@@ -121,6 +125,7 @@ export class SchemaEdgeModel {
   // Map edge kind to API relation type
   private mapRelation(kind: EdgeKind): 'implements'|'ref'|'gts'|'other' {
     switch (kind) {
+      case 'implements': return 'implements'
       case 'ref': return 'ref'
       case 'gts':
       case 'gts-json': return 'gts'
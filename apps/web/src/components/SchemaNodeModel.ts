@@ -1,6 +1,6 @@
-import type { JsonObj, JsonSchema } from '@gts/shared'
+import { decodeGtsId, type JsonObj, type JsonSchema, type JsonRegistry } from '@gts/shared'
 import { SchemaEdgeModel } from './SchemaEdgeModel'
-import { parseJsonToProperties, parseSchemaToProperties } from '../lib/schemaParser'
+import { parseJsonToProperties, parseSchemaToProperties, parseEffectiveSchemaToProperties } from '../lib/schemaParser'
 import { debug } from '@/lib/debug'
 import type { Position } from '@/lib/types'
 export type NodeKind = 'json' | 'schema'
@@ -13,6 +13,9 @@ export class SchemaNodeModel {
   rawView: boolean
   sections: Record<string, boolean>
   properties?: any[]
+  // Schemas only: show the flattened effective schema instead of the declared one
+  effectiveView: boolean
+  private effectiveProperties?: any[]
   edges: SchemaEdgeModel[]
   isMaximized: boolean
   snapshotChecked: boolean
@@ -37,6 +40,7 @@ export class SchemaNodeModel {
     this.expanded = params.expanded ?? true
     this.rawView = params.rawView ?? false
     this.sections = params.sections || {}
+    this.effectiveView = false
     this.edges = []
     this.isMaximized = params.isMaximized ?? false
     this.snapshotChecked = false
@@ -99,6 +103,19 @@ export class SchemaNodeModel {
 
   addEdge(edge: SchemaEdgeModel) { this.edges.push(edge) }
 
+  // Effective property tree of a schema, with $refs resolved through the registry (computed once)
+  getEffectiveProperties(registry: JsonRegistry | null): any[] | undefined {
+    if (!this.entity.isSchema || !registry) return this.properties
+    if (!this.effectiveProperties) {
+      this.effectiveProperties = parseEffectiveSchemaToProperties(this.entity.content, this.entity.id, (ref: string) => {
+        const id = registry.resolveSchemaId(decodeGtsId(ref))
+        const schema = id ? registry.jsonSchemas.get(id) : undefined
+        return schema ? { id: schema.id, content: schema.content } : undefined
+      })
+    }
+    return this.effectiveProperties
+  }
+
   // Reset the baseline after a successful save
   resetDirtyBaseline() {
     this.origExpanded = this.expanded
@@ -1,16 +1,17 @@
 import { Component, createRef } from 'react'
 import { createPortal } from 'react-dom'
 import { Handle, Position, type NodeProps } from 'reactflow'
-import { ChevronDown, ChevronUp, CheckCircle, AlertCircle, Code2, List, X } from 'lucide-react'
+import { ChevronDown, ChevronUp, CheckCircle, AlertCircle, AlertTriangle, Code2, List, Layers, FlaskConical, X } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { PropertyViewer } from './PropertyViewer'
 import { JsonCode } from '@/components/JsonCode'
+import { ExampleModal } from './ExampleModal'
 import { cn, renderGtsNameWithBreak } from '@/lib/utils'
 import { diagramRegistry } from '@/lib/diagramRegistry'
 import { Popup, PopupTrigger, PopupContent } from '@/components/ui/popup'
 import type { SchemaNodeModel } from './SchemaNodeModel'
-import type { ValidationIssues, OffsetValidationIssue, LineValidationIssue } from '@gts/shared'
+import { createJsonSourceMap, type ValidationIssues, type OffsetValidationIssue } from '@gts/shared'
 
 
 export class SchemaNodeView extends Component<NodeProps<any>, {}> {
@@ -22,6 +23,7 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
   private onMaximizeRawJson?: (isRawView: boolean) => void
   private onNodeChange?: () => void
   private isVSCode: boolean = false
+  private exampleOpen = false
 
   constructor(props: NodeProps<any>) {
     super(props)
@@ -77,9 +79,12 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
     const validation = this.model?.entity?.validation
     const isSchema = this.isSchemaNode()
 
-    if (validation && validation.errors.length > 0) {
+    if (validation && validation.errors.some(e => e.severity !== 'warning')) {
       return <AlertCircle className="h-4 w-4 text-red-100 bg-red-500 rounded-full" />
     }
+    if (validation && validation.errors.length > 0) {
+      return <AlertTriangle className="h-4 w-4 text-amber-500" />
+    }
 
     return isSchema
       ? <CheckCircle className="h-4 w-4 text-blue-500" />
@@ -133,115 +138,46 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
     this.forceUpdate()
   }
 
-  private findPropertyInJson(code: string, instancePath: string, rootObj?: any): { lineStart: number; lineEnd: number; charStart: number; charEnd: number } | null {
-    // Parse instancePath like "/retention2" or "/nested/property"
-    if (!instancePath || instancePath === '/') return null
-
-    const pathParts = instancePath.split('/').filter(p => p)
-    if (pathParts.length === 0) return null
-
-    const propertyName = pathParts[pathParts.length - 1]
-
-    // If we have the root object, try to resolve the exact value at the path
-    // and locate the key: value pair precisely. This avoids matching the wrong
-    // occurrence of the same property name elsewhere.
-    if (rootObj) {
-      try {
-        const segments = pathParts
-        let parent: any = rootObj
-        for (let i = 0; i < segments.length - 1; i++) {
-          const seg = segments[i]
-          const idx = String(Number(seg)) === seg ? Number(seg) : seg
-          parent = Array.isArray(parent) ? parent[idx as number] : parent?.[idx as any]
-          if (parent == null) break
-        }
-        const last = segments[segments.length - 1]
-        const key = last
-        const idxLast = String(Number(key)) === key ? Number(key) : key
-        const value = Array.isArray(parent) ? parent?.[idxLast as number] : parent?.[idxLast as any]
-
-        if (typeof value === 'string') {
-          const lines = code.split('\n')
-          const keyString = `"${key}"`
-          const valueString = JSON.stringify(value)
-          const keyValRegex = new RegExp(`${keyString}\\s*:\\s*${valueString}`)
-          for (let i = 0; i < lines.length; i++) {
-            const line = lines[i]
-            const match = keyValRegex.exec(line)
-            if (match) {
-              const startIdx = match.index
-              return {
-                lineStart: i,
-                lineEnd: i,
-                charStart: startIdx,
-                charEnd: startIdx + match[0].length
-              }
-            }
-          }
-        }
-      } catch {
-        // Fall through to generic locator below
-      }
-    }
-
-    // Find all occurrences of the property name in quotes
-    const regex = new RegExp(`"${propertyName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"`, 'g')
-    const lines = code.split('\n')
+  private handleToggleEffectiveView = () => {
+    this.model.effectiveView = !this.model.effectiveView
+    this.forceUpdate()
+  }
 
-    let currentOffset = 0
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const match = regex.exec(line)
+  // Toggle between the declared and the effective (flattened) schema; schemas only
+  private renderEffectiveToggle(rawView: boolean) {
+    if (!this.model?.entity?.isSchema || rawView) return null
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn('h-6 px-2 mr-1', this.model.effectiveView ? 'bg-blue-200' : 'bg-gray-200')}
+        onClick={(e) => { e.stopPropagation(); this.handleToggleEffectiveView() }}
+        title={this.model.effectiveView ? 'Show declared schema' : 'Show effective schema (resolved $refs, merged allOf)'}
+      >
+        <Layers className="h-3.5 w-3.5" />
+      </Button>
+    )
+  }
 
-      if (match) {
-        // Check if this is a property key (followed by ":")
-        const afterMatch = line.substring(match.index + match[0].length).trim()
-        if (afterMatch.startsWith(':')) {
-          // Found the property key, now find the value
-          const colonIndex = match.index + match[0].length + line.substring(match.index + match[0].length).indexOf(':')
-
-          // Find the end of the value (next comma, closing brace, or end of line)
-          let valueEnd = colonIndex + 1
-          let depth = 0
-          let inString = false
-
-          for (let j = i; j < lines.length; j++) {
-            const currentLine = j === i ? lines[j].substring(valueEnd) : lines[j]
-
-            for (let k = 0; k < currentLine.length; k++) {
-              const char = currentLine[k]
-
-              if (char === '"' && (k === 0 || currentLine[k - 1] !== '\\')) {
-                inString = !inString
-              } else if (!inString) {
-                if (char === '{' || char === '[') depth++
-                else if (char === '}' || char === ']') depth--
-                else if ((char === ',' || char === '}' || char === ']') && depth === 0) {
-                  return {
-                    lineStart: i,
-                    lineEnd: j,
-                    charStart: match.index,
-                    charEnd: j === i ? valueEnd + k : currentLine.length
-                  }
-                }
-              }
-            }
-
-            if (j > i) valueEnd = 0
-          }
-
-          return {
-            lineStart: i,
-            lineEnd: i,
-            charStart: match.index,
-            charEnd: line.length
-          }
-        }
-      }
-      currentOffset += line.length + 1
-    }
+  private handleToggleExample = (open: boolean) => {
+    this.exampleOpen = open
+    this.forceUpdate()
+  }
 
-    return null
+  // Open a generated example instance of the schema; schemas only
+  private renderExampleButton() {
+    if (!this.model?.entity?.isSchema) return null
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 mr-1 bg-gray-200"
+        onClick={(e) => { e.stopPropagation(); this.handleToggleExample(true) }}
+        title="Generate example"
+      >
+        <FlaskConical className="h-3.5 w-3.5" />
+      </Button>
+    )
   }
 
   private renderCodeWithErrors(code: string): JSX.Element {
@@ -280,37 +216,19 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
       return <JsonCode code={code} registry={registry} validationIssues={validationIssues} />
     }
 
-    // Otherwise, process line-based validation errors (JSON schema validation errors)
+    // Otherwise, locate JSON schema validation errors in the rendered code by their instancePath
+    const sourceMap = createJsonSourceMap(code)
     validation.errors.forEach((error) => {
-      let targetPath = error.instancePath
-
-      // Handle additionalProperties errors - extract property name from message
-      if (error.keyword === 'additionalProperties' && error.message) {
-        const match = error.message.match(/must NOT have additional property ['"]([^'"]+)['"]/)
-        if (match) {
-          // Build path: if instancePath is '/', use '/propertyName', otherwise append
-          targetPath = error.instancePath === '/' ? `/${match[1]}` : `${error.instancePath}/${match[1]}`
-        }
-      }
-
-      if (targetPath) {
-        const location = this.findPropertyInJson(code, targetPath, (this.model?.entity?.content ?? (this.props.data as any)?.entity?.content))
-        if (location) {
-          // For GTS reference errors, only highlight the single line where the GTS ID is,
-          // not the entire object
-          const lineStart = location.lineStart + 1 // Convert to 1-based
-          const isGtsReferenceError = error.message.includes('GTS reference not found')
-          const lineEnd = isGtsReferenceError ? lineStart : location.lineEnd + 1 // Convert to 1-based
-
-          const issue: LineValidationIssue = {
-            type: 'line',
-            lineStart: lineStart,
-            lineEnd: lineEnd,
-            message: error.message,
-            keyword: error.keyword
-          }
-          validationIssues.push(issue)
+      const range = sourceMap.locateError(error)
+      if (range) {
+        const issue: OffsetValidationIssue = {
+          type: 'offset',
+          start: range.start,
+          end: range.end,
+          message: error.message,
+          keyword: error.keyword
         }
+        validationIssues.push(issue)
       }
     })
 
@@ -426,8 +344,9 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
                       onClick={(e) => {
                         e.stopPropagation()
                         const filePath = (this.model?.entity?.file?.path || d.entity?.file?.path)
+                        const listSequence = (this.model?.entity ?? d.entity)?.listSequence
                         const appApi: any = (window as any).__GTS_APP_API__
-                        try { appApi?.openFile?.(filePath) } catch {}
+                        try { appApi?.openFile?.(filePath, listSequence) } catch {}
                       }}
                       title={(this.model?.entity?.file?.path || d.entity?.file?.path) || ''}
                     >
@@ -444,6 +363,9 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
                     </Popup>
                   )}
                 </div>
+                <div className="flex items-center">
+                {this.renderExampleButton()}
+                {this.renderEffectiveToggle(rawView)}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -453,6 +375,7 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
                 >
                   {rawView ? <List className="h-3.5 w-3.5" /> : <Code2 className="h-3.5 w-3.5" />}
                 </Button>
+                </div>
               </div>
             )}
             {(this.model?.entity?.validation || d.entity?.validation) && (this.model?.entity?.validation || d.entity?.validation).errors.length > 0 && (
@@ -495,7 +418,7 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
                   }}
                 >
                   <PropertyViewer
-                    properties={this.model.properties}
+                    properties={this.model.effectiveView ? (this.model.getEffectiveProperties(registry) ?? []) : this.model.properties}
                     sectionStates={sectionStates}
                     onToggleSection={this.handleToggleSection}
                     validationErrors={this.model?.entity?.validation?.errors}
@@ -543,7 +466,7 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
                           e.stopPropagation()
                           const filePath = this.model?.entity?.file?.path
                           const appApi: any = (window as any).__GTS_APP_API__
-                          try { appApi?.openFile?.(filePath) } catch {}
+                          try { appApi?.openFile?.(filePath, this.model?.entity?.listSequence) } catch {}
                         }}
                         title={this.model?.entity?.file?.path || ''}
                       >
@@ -552,6 +475,9 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
                     ) : (
                       <span className="truncate cursor-default overflow-hidden">{this.model?.entity?.file?.name}</span>
                     )}
+                    <div className="flex items-center">
+                    {this.renderExampleButton()}
+                    {this.renderEffectiveToggle(rawView)}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -561,6 +487,7 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
                     >
                       {(this.model?.rawView ? true : false) ? <List className="h-3.5 w-3.5" /> : <Code2 className="h-3.5 w-3.5" />}
                     </Button>
+                    </div>
                   </div>
                 )}
                 {this.model?.entity?.validation && this.model.entity.validation.errors.length > 0 && (
@@ -584,7 +511,7 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
                   this.model?.properties && (
                     <div className="h-[calc(100%-2rem)] overflow-y-auto overflow-x-hidden pr-2">
                       <PropertyViewer
-                        properties={this.model.properties}
+                        properties={this.model.effectiveView ? (this.model.getEffectiveProperties(registry) ?? []) : this.model.properties}
                         sectionStates={this.model.sections}
                         onToggleSection={this.handleToggleSection}
                         validationErrors={this.model?.entity?.validation?.errors}
@@ -600,6 +527,15 @@ export class SchemaNodeView extends Component<NodeProps<any>, {}> {
         overlayContainer
       )}
 
+      {this.exampleOpen && (
+        <ExampleModal
+          open={this.exampleOpen}
+          onClose={() => this.handleToggleExample(false)}
+          registry={registry}
+          schemaId={this.model.entity.id}
+        />
+      )}
+
       {/* Source handles */}
       <Handle type="source" position={Position.Left} id="left-1" className="w-1 h-1 !bg-gray-300 opacity-50" style={{ top: '25%', pointerEvents: 'none' }} />
       <Handle type="source" position={Position.Left} id="left-2" className="w-1 h-1 !bg-gray-300 opacity-50" style={{ top: '50%', pointerEvents: 'none' }} />
@@ -1,19 +1,23 @@
 import React, { useRef, useState, useEffect, useMemo } from 'react'
 import { EntityList } from './EntitiesListMenu'
 import { SchemaDiagram, type SchemaDiagramHandle } from './SchemaDiagram'
-import { JsonObj, JsonSchema, JsonFile } from '@gts/shared'
+import { JsonObj, JsonSchema, JsonFile, decodeGtsId, type ServerEvent } from '@gts/shared'
 import { SchemaInvalidFileModel } from './SchemaInvalidFileModel'
 import { SchemaInvalidFileView } from './SchemaInvalidFileView'
-import { Loader2, AlertCircle, RefreshCw } from 'lucide-react'
+import { Loader2, AlertCircle, RefreshCw, FileCode } from 'lucide-react'
 import { Button } from './ui/button'
 import { Card, CardContent } from './ui/card'
+import { Toast, type ToastType } from './ui/toast'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 import { debug } from '@/lib/debug'
 import { TIMING } from '@/lib/timing'
 import { AppConfig } from '@/lib/config'
 import { ViewerModel } from '@/hooks/viewerModel'
 import { useServerHealth } from '@/hooks/useServerHealth'
+import { useServerEvents } from '@/hooks/useServerEvents'
+import { CLIENT_ID } from '@/utils/storage'
 import { diagramRegistry } from '@/lib/diagramRegistry'
+import { exportTypes } from '@/lib/exportTypes'
 
 interface SharedAppProps {
   model: ViewerModel
@@ -63,6 +67,10 @@ export function SharedApp({
   const [sidebarOpen, setSidebarOpen] = useState(!isVSCode)
   const [isResizing, setIsResizing] = useState(false)
   const [layoutDirty, setLayoutDirty] = useState(false)
+  const [toast, setToast] = useState<{ message: string; type: ToastType; duration?: number } | null>(null)
+  const serverChangesTimerRef = useRef<number | null>(null)
+  // Server changes to the open diagram that arrived while its layout had unsaved changes
+  const serverChangesPendingRef = useRef(false)
   const diagramRef = useRef<SchemaDiagramHandle | null>(null)
   // Track filtered entities from EntitiesListMenu for keyboard navigation
   const [filteredEntities, setFilteredEntities] = useState<Array<JsonObj | JsonSchema | JsonFile>>([])
@@ -236,6 +244,22 @@ export function SharedApp({
     }
   }
 
+  // Generate TypeScript declarations for all schemas and save them (folder or single-file download)
+  const handleExportTypes = async () => {
+    try {
+      const result = await exportTypes(model.registry)
+      if (!result) return
+      setToast({
+        message: result.target === 'folder'
+          ? `Exported ${result.types} types, one module per GTS type`
+          : `Exported ${result.types} types to gts-types.ts`,
+        type: 'success'
+      })
+    } catch (e) {
+      setToast({ message: `Failed to export types: ${e instanceof Error ? e.message : String(e)}`, type: 'error' })
+    }
+  }
+
   // Refresh only the diagram layout: reload saved layout from storage without reloading files
   const handleRefreshLayout = () => {
     if (!diagramEntity) {
@@ -293,6 +317,65 @@ export function SharedApp({
     return () => window.removeEventListener('gts-refresh-layout' as any, onRefreshLayout)
   }, [handleRefreshLayout, model.registry, diagramEntity])
 
+  // Whether an entity appears in the open diagram: the entity itself, its schema, or an entity it references
+  const isShownInDiagram = (id: string) => {
+    if (!diagramEntity) return false
+    const refs = [...(diagramEntity.gtsRefs ?? []), ...((diagramEntity as JsonSchema).schemaRefs ?? [])]
+    return [diagramEntity.id, diagramEntity.schemaId, ...refs.map(r => r.id)]
+      .some(other => other !== undefined && decodeGtsId(other) === id)
+  }
+
+  // React to changes pushed by the server: layouts saved by other clients and registry updates
+  useServerEvents((event: ServerEvent) => {
+    diagramRegistry.delete(event.id)
+
+    if (event.type === 'layout-saved') {
+      if (event.clientId === CLIENT_ID) return
+      if (!diagramEntity || decodeGtsId(diagramEntity.id) !== event.id) return
+      if (layoutDirty) {
+        // Keep unsaved changes; the user decides when to load the other version
+        setToast({
+          message: 'Layout updated by someone else. Click Refresh to load it (your unsaved changes will be lost).',
+          type: 'info',
+          duration: 0
+        })
+      } else {
+        handleRefreshLayout()
+        setToast({ message: 'Layout updated by someone else', type: 'info', duration: TIMING.LAYOUT_UPDATED_MSG_DURATION })
+      }
+      return
+    }
+
+    // Entity or validation change: refreshing now would drop unsaved layout changes, so wait for save or discard
+    if (!isShownInDiagram(event.id)) return
+    if (layoutDirty) {
+      if (!serverChangesPendingRef.current) {
+        serverChangesPendingRef.current = true
+        setToast({ message: 'Entities in this diagram changed. It will refresh once the layout is saved or discarded.', type: 'info' })
+      }
+      return
+    }
+    scheduleServerRefresh()
+  })
+
+  // Several changes usually arrive together, so refresh once they settle
+  const scheduleServerRefresh = () => {
+    if (serverChangesTimerRef.current !== null) {
+      clearTimeout(serverChangesTimerRef.current)
+    }
+    serverChangesTimerRef.current = window.setTimeout(() => {
+      serverChangesTimerRef.current = null
+      handleRefreshEverything()
+    }, TIMING.SERVER_CHANGES_REFRESH_DELAY)
+  }
+
+  // Apply server changes held back while the layout was dirty
+  useEffect(() => {
+    if (layoutDirty || !serverChangesPendingRef.current) return
+    serverChangesPendingRef.current = false
+    scheduleServerRefresh()
+  }, [layoutDirty])
+
   if (loading) {
     return (
       <div className="h-screen flex items-center justify-center">
@@ -388,6 +471,7 @@ export function SharedApp({
           onRefresh={handleRefreshEverything}
           onOpen={chooseDirectory}
           onFilteredEntitiesChange={setFilteredEntities}
+          registry={model.registry}
         />
       </div>
 
@@ -438,6 +522,16 @@ export function SharedApp({
                 <RefreshCw className="h-4 w-4 mr-2" />
                 Refresh
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={schemas.length === 0}
+                onClick={handleExportTypes}
+                title={schemas.length === 0 ? 'No schemas to export' : 'Export TypeScript types generated from the schemas'}
+              >
+                <FileCode className="h-4 w-4 mr-2" />
+                Export types
+              </Button>
               <Button
                 variant="default"
                 size="sm"
@@ -509,6 +603,9 @@ export function SharedApp({
           )}
         </div>
       </div>
+      {toast && (
+        <Toast message={toast.message} type={toast.type} duration={toast.duration} onClose={() => setToast(null)} />
+      )}
       {/* Global bottom hint footer (always visible) */}
       <div
         className="fixed bottom-0 left-0 right-0 h-[25px] bg-card border-t px-4 text-xs text-muted-foreground flex items-center z-50"
@@ -99,8 +99,8 @@ export function useJsonObjsVscode() {
     }
     window.addEventListener('gts-select-file' as any, onSelectFile)
 
-    function onValidationResult(e: any) {
-      const detail = e?.detail || {}
+    // Validation results computed by the extension take precedence over the webview's own
+    function applyValidationResult(detail: any) {
       const objList: Array<{id: string; validation?: any}> = detail.objs || []
       const schemaList: Array<{id: string; validation?: any}> = detail.schemas || []
       const invalidList: Array<{path: string; validation?: any}> = detail.invalidFiles || []
@@ -109,6 +109,23 @@ export function useJsonObjsVscode() {
       objList.forEach(o => { const ent = reg.jsonObjs.get(o.id) as any; if (ent && o.validation) ent.validation = o.validation })
       schemaList.forEach(s => { const ent = reg.jsonSchemas.get(s.id) as any; if (ent && s.validation) ent.validation = s.validation })
       invalidList.forEach(f => { const ent = reg.invalidFiles.get(f.path) as any; if (ent && f.validation) ent.validation = f.validation })
+    }
+
+    function onValidationResult(e: any) {
+      applyValidationResult(e?.detail || {})
+      setVersion(v => v + 1)
+    }
+
+    // A single file changed or was removed: apply it to the registry instead of re-ingesting the scan
+    async function onFileChanged(e: any) {
+      const detail = e?.detail || {}
+      const reg = registryRef.current
+      if (detail.file) {
+        await reg.updateFile(detail.file, AppConfig.get().gts)
+      } else if (detail.filePath) {
+        await reg.removeFile(detail.filePath)
+      }
+      applyValidationResult(detail)
       setVersion(v => v + 1)
     }
 
@@ -119,6 +136,8 @@ export function useJsonObjsVscode() {
 
     window.addEventListener('gts-validation-result' as any, onValidationResult)
     window.addEventListener('gts-validation-error' as any, onValidationError)
+    window.addEventListener('gts-file-changed' as any, onFileChanged)
+    window.addEventListener('gts-file-removed' as any, onFileChanged)
 
     // Kick off scan for .json, .jsonc and .gts files
     try {
@@ -135,6 +154,8 @@ export function useJsonObjsVscode() {
       window.removeEventListener('gts-scan-error' as any, onError)
       window.removeEventListener('gts-validation-result' as any, onValidationResult)
       window.removeEventListener('gts-validation-error' as any, onValidationError)
+      window.removeEventListener('gts-file-changed' as any, onFileChanged)
+      window.removeEventListener('gts-file-removed' as any, onFileChanged)
       window.removeEventListener('gts-select-file' as any, onSelectFile)
     }
   }, [buildEntities])
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react'
+import type { ServerEvent } from '@gts/shared'
+import { getAppApi, getApiBase } from '@/utils/api'
+
+const SERVER_EVENT_TYPES: Array<ServerEvent['type']> = [
+  'entity-added',
+  'entity-changed',
+  'entity-removed',
+  'validation-changed',
+  'layout-saved'
+]
+
+/**
+ * Hook to subscribe to registry and layout changes pushed by the server (GET /events).
+ * Only applies to web mode with server backend - other platforms receive no events.
+ * The browser reconnects on its own after the server restarts.
+ */
+export function useServerEvents(onEvent: (event: ServerEvent) => void) {
+  // Callers pass a fresh closure each render; keep the latest without reconnecting
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  useEffect(() => {
+    const appApi = getAppApi()
+    if (appApi.type !== 'web' || appApi.layoutStorage || typeof EventSource === 'undefined') {
+      return
+    }
+
+    const source = new EventSource(`${getApiBase()}/events`)
+    const listener = (e: MessageEvent) => {
+      try {
+        onEventRef.current(JSON.parse(e.data) as ServerEvent)
+      } catch (error) {
+        console.warn('[Server Events] Ignoring malformed event:', e.data, error)
+      }
+    }
+    SERVER_EVENT_TYPES.forEach((type) => source.addEventListener(type, listener))
+
+    return () => {
+      SERVER_EVENT_TYPES.forEach((type) => source.removeEventListener(type, listener))
+      source.close()
+    }
+  }, [])
+}
@@ -13,6 +13,13 @@ export interface EdgeConfig {
 }
 
 export const EDGE_CONFIG: Record<EdgeKind, EdgeConfig> = {
+  implements: {
+    priority: 5,
+    style: {
+      stroke: '#3b82f6',
+      strokeWidth: 2,
+    },
+  },
   schema: {
     priority: 4,
     style: {
@@ -61,3 +68,10 @@ export function getEdgePriority(kind: EdgeKind): number {
 export function getEdgeStyle(kind: EdgeKind): EdgeStyle {
   return EDGE_CONFIG[kind].style
 }
+
+// Edges that close a reference cycle keep their dash pattern but are drawn in red
+export const CYCLE_EDGE_STROKE = '#ef4444'
+
+export function getCycleEdgeStyle(kind: EdgeKind): EdgeStyle {
+  return { ...EDGE_CONFIG[kind].style, stroke: CYCLE_EDGE_STROKE, strokeWidth: 2 }
+}
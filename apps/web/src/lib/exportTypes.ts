@@ -0,0 +1,47 @@
+import { JsonRegistry, generateTypeScriptModules, bundleTypeScriptModules } from '@gts/shared'
+
+const BUNDLE_FILE_NAME = 'gts-types.ts'
+
+export interface TypesExportResult {
+  /** Number of generated types */
+  types: number
+  /** Where the types went: modules written to a chosen folder, or one downloaded file */
+  target: 'folder' | 'download'
+}
+
+/**
+ * Export TypeScript declarations of the registry's schemas. Where the browser can write to
+ * a folder (File System Access API) one module per type ID is written there; otherwise a
+ * single bundled file is downloaded. Returns null if the user cancels the folder picker.
+ */
+export async function exportTypes(registry: JsonRegistry): Promise<TypesExportResult | null> {
+  const modules = generateTypeScriptModules(registry)
+  const types = modules.filter(m => m.typeId).length
+
+  const showDirectoryPicker = (window as any).showDirectoryPicker
+  if (typeof showDirectoryPicker === 'function') {
+    let directory: any
+    try {
+      directory = await showDirectoryPicker.call(window, { id: 'gts-types', mode: 'readwrite' })
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'AbortError') return null
+      throw e
+    }
+    for (const module of modules) {
+      const handle = await directory.getFileHandle(module.fileName, { create: true })
+      const writable = await handle.createWritable()
+      await writable.write(module.content)
+      await writable.close()
+    }
+    return { types, target: 'folder' }
+  }
+
+  const blob = new Blob([bundleTypeScriptModules(modules)], { type: 'text/plain' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = BUNDLE_FILE_NAME
+  link.click()
+  URL.revokeObjectURL(url)
+  return { types, target: 'download' }
+}
@@ -1,4 +1,4 @@
-import { GTS_REGEX, GTS_TYPE_REGEX, GTS_OBJ_REGEX } from '@gts/shared'
+import { GTS_REGEX, GTS_TYPE_REGEX, GTS_OBJ_REGEX, flattenSchema, type SchemaRefResolver } from '@gts/shared'
 
 export interface PropertyInfo {
   name: string
@@ -9,8 +9,13 @@ export interface PropertyInfo {
   children?: PropertyInfo[]
   isGtsType?: boolean
   isGtsObj?: boolean
+  // IDs of the schemas that define this property (effective view only)
+  sources?: string[]
 }
 
+// Property schema -> IDs of the schemas it was defined in
+type PropertySources = WeakMap<object, string[]>
+
 export function parseJsonToProperties(data: any, name = 'root'): PropertyInfo[] {
   if (data === null || data === undefined) {
     return [{
@@ -112,7 +117,7 @@ export function parseJsonToProperties(data: any, name = 'root'): PropertyInfo[]
   return children
 }
 
-export function parseSchemaToProperties(schema: any): PropertyInfo[] {
+export function parseSchemaToProperties(schema: any, sources?: PropertySources): PropertyInfo[] {
   if (!schema || typeof schema !== 'object') {
     return []
   }
@@ -168,9 +173,10 @@ export function parseSchemaToProperties(schema: any): PropertyInfo[] {
         type: getSchemaType(prop),
         required: required.includes(key),
         description,
-        children: getSchemaChildren(prop),
+        children: getSchemaChildren(prop, sources),
         isGtsType,
-        isGtsObj
+        isGtsObj,
+        sources: sources?.get(prop)
       })
     })
   }
@@ -179,7 +185,7 @@ export function parseSchemaToProperties(schema: any): PropertyInfo[] {
   if (schema.allOf) {
     schema.allOf.forEach((subSchema: any, index: number) => {
 
-      const subProperties = parseSchemaToProperties(subSchema)
+      const subProperties = parseSchemaToProperties(subSchema, sources)
       let description = subSchema.description
       let isGtsType = false
       let isGtsObj = false
@@ -211,7 +217,7 @@ export function parseSchemaToProperties(schema: any): PropertyInfo[] {
 
   if (schema.oneOf) {
     schema.oneOf.forEach((subSchema: any, index: number) => {
-      const subProperties = parseSchemaToProperties(subSchema)
+      const subProperties = parseSchemaToProperties(subSchema, sources)
       let description = subSchema.description
 
       // Add schema title or $ref information
@@ -235,7 +241,7 @@ export function parseSchemaToProperties(schema: any): PropertyInfo[] {
 
   if (schema.anyOf) {
     schema.anyOf.forEach((subSchema: any, index: number) => {
-      const subProperties = parseSchemaToProperties(subSchema)
+      const subProperties = parseSchemaToProperties(subSchema, sources)
       let description = subSchema.description
 
       // Add schema title or $ref information
@@ -259,7 +265,7 @@ export function parseSchemaToProperties(schema: any): PropertyInfo[] {
 
   // Handle array items
   if (schema.type === 'array' && schema.items) {
-    const itemProperties = parseSchemaToProperties(schema.items)
+    const itemProperties = parseSchemaToProperties(schema.items, sources)
     if (itemProperties.length > 0) {
       properties.push({
         name: 'items',
@@ -305,18 +311,18 @@ function getSchemaType(schema: any): string {
   return 'unknown'
 }
 
-function getSchemaChildren(schema: any): PropertyInfo[] | undefined {
+function getSchemaChildren(schema: any, sources?: PropertySources): PropertyInfo[] | undefined {
   // Handle $ref - don't expand children for references, let the description show the reference
   if (schema.$ref) {
     return undefined
   }
 
   if (schema.type === 'object' && schema.properties) {
-    return parseSchemaToProperties(schema)
+    return parseSchemaToProperties(schema, sources)
   }
 
   if (schema.type === 'array' && schema.items) {
-    return parseSchemaToProperties(schema.items)
+    return parseSchemaToProperties(schema.items, sources)
   }
 
   if (schema.enum) {
@@ -337,8 +343,27 @@ function getSchemaChildren(schema: any): PropertyInfo[] | undefined {
 
   // Handle allOf, oneOf, anyOf in children
   if (schema.allOf || schema.oneOf || schema.anyOf) {
-    return parseSchemaToProperties(schema)
+    return parseSchemaToProperties(schema, sources)
   }
 
   return undefined
 }
+
+/**
+ * Parse a schema into its effective property tree: $refs are resolved through the
+ * registry and allOf chains are merged, so a derived type shows its final shape.
+ * Each property lists the schemas that define it (base first).
+ */
+export function parseEffectiveSchemaToProperties(schema: any, sourceId: string, resolve: SchemaRefResolver): PropertyInfo[] {
+  const sources: PropertySources = new WeakMap()
+  const effective = flattenSchema(schema, resolve, {
+    id: sourceId,
+    inlineRefs: true,
+    onProperty: (property, id) => sources.set(property, [id]),
+    onPropertyMerged: (merged, definitions) => {
+      const ids = definitions.flatMap(d => sources.get(d) || [])
+      sources.set(merged, Array.from(new Set(ids)))
+    }
+  })
+  return parseSchemaToProperties(effective, sources)
+}
@@ -13,6 +13,7 @@ export const TIMING = {
   // State updates
   NEXT_TICK: 1,
   STATE_PROPAGATION_DELAY: 1,
+  SERVER_CHANGES_REFRESH_DELAY: 500,
 
   // Animations
   VIEWPORT_TRANSITION_DURATION: 200,
@@ -20,4 +21,5 @@ export const TIMING = {
   // Toast
   SAVE_LAYOUT_ERROR_MSG_DURATION: 5000,
   SAVE_LAYOUT_SUCCESS_MSG_DURATION: 2000,
+  LAYOUT_UPDATED_MSG_DURATION: 5000,
 } as const
@@ -67,8 +67,11 @@ export interface AppApi {
   /** Layout storage (available on electron; vscode uses server) */
   readonly layoutStorage?: LayoutStorageApi
 
-  /** Open a file in the platform's editor (available on vscode) */
-  readonly openFile?: (filePath: string) => void
+  /**
+   * Open a file in the platform's editor (available on vscode).
+   * listSequence reveals an entity of an array file or multi-document YAML stream.
+   */
+  readonly openFile?: (filePath: string, listSequence?: number) => void
 }
 
 /**
@@ -1,5 +1,12 @@
 import type { ILayoutStorage, LayoutSnapshot, LayoutSaveRequest, LayoutTarget } from '@gts/layout-storage'
-import { decodeGtsId } from '@gts/shared'
+import { decodeGtsId, GTS_CLIENT_ID_HEADER } from '@gts/shared'
+
+/**
+ * Identifies this browser tab to the server, so layout-saved events for its own saves can be ignored
+ */
+export const CLIENT_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
 
 /**
  * Server-based layout storage for web version
@@ -48,7 +55,7 @@ export class ServerLayoutStorage implements ILayoutStorage {
 
     const res = await fetch(this.apiBaseUrl + '/layouts', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', [GTS_CLIENT_ID_HEADER]: CLIENT_ID },
       body: JSON.stringify(requestWithWorkspace),
     })
     if (!res.ok) throw new Error(`Failed to save layout: ${res.status}`)
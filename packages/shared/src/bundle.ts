@@ -0,0 +1,64 @@
+import type { SchemaRefResolver } from './inheritance.js'
+import { escapePointerSegment } from './json-pointer.js'
+import { DOCUMENT_KEYWORDS, isObject } from './schema-utils.js'
+
+/**
+ * Bundle a schema with every schema it references: each $ref to another schema is inlined once
+ * under $defs (keyed by the schema ID) and rewritten to point there, so the result is
+ * self-contained and can be compiled by tools that cannot resolve gts:// references.
+ * Local refs of inlined schemas are rewritten to their new location; references that
+ * cannot be resolved stay as they are.
+ *
+ * @param id - ID of the bundled schema; refs back to it point to the document root
+ * @param content - Schema content to bundle (not modified)
+ * @param resolve - Resolver for $ref values that are not local
+ * @returns The bundled schema
+ *
+ * @example
+ * const bundled = bundleSchema(schema.id, schema.content, ref => {
+ *   const s = registry.jsonSchemas.get(decodeGtsId(ref))
+ *   return s && { id: s.id, content: s.content }
+ * })
+ */
+export function bundleSchema(id: string, content: any, resolve: SchemaRefResolver): any {
+  if (!isObject(content)) return content
+  const defs = new Map<string, any>()
+
+  const rewriteRef = (ref: string, base: string): string => {
+    if (ref.startsWith('#')) return base ? `#${base}${ref.slice(1)}` : ref
+
+    const hashIndex = ref.indexOf('#')
+    const target = resolve(hashIndex < 0 ? ref : ref.slice(0, hashIndex))
+    if (!target) return ref
+    const fragment = hashIndex < 0 ? '' : ref.slice(hashIndex + 1)
+    if (target.id === id) return `#${fragment}`
+
+    const location = `/$defs/${escapePointerSegment(target.id)}`
+    if (!defs.has(target.id)) {
+      // Reserve the key first, so schemas referencing each other are inlined once
+      defs.set(target.id, null)
+      const embedded: any = isObject(target.content) ? { ...target.content } : target.content
+      if (isObject(embedded)) {
+        for (const kw of DOCUMENT_KEYWORDS) delete embedded[kw]
+      }
+      defs.set(target.id, rewrite(embedded, location))
+    }
+    return `#${location}${fragment}`
+  }
+
+  const rewrite = (node: any, base: string): any => {
+    if (Array.isArray(node)) return node.map(item => rewrite(item, base))
+    if (!isObject(node)) return node
+    const result: any = {}
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = key === '$ref' && typeof value === 'string' ? rewriteRef(value, base) : rewrite(value, base)
+    }
+    return result
+  }
+
+  const bundled = rewrite(content, '')
+  if (defs.size > 0) {
+    bundled.$defs = { ...(isObject(bundled.$defs) ? bundled.$defs : {}), ...Object.fromEntries(defs) }
+  }
+  return bundled
+}
@@ -0,0 +1,219 @@
+import { normalizeGtsId, type ValidationError } from './entities.js'
+import { escapePointerSegment } from './json-pointer.js'
+
+/**
+ * Kinds of backward-incompatible changes between two versions of a schema
+ */
+export type CompatibilityIssueKind =
+  | 'property-removed'
+  | 'required-added'
+  | 'type-narrowed'
+  | 'enum-value-removed'
+  | 'const-changed'
+  | 'additional-properties-restricted'
+  | 'constraint-tightened'
+
+/**
+ * A single backward-incompatible change found in the newer schema
+ */
+export interface CompatibilityIssue {
+  kind: CompatibilityIssueKind
+  /** JSON Pointer into the newer schema where the change was found (e.g. '/properties/payload/required') */
+  path: string
+  /** Human-readable description of the change */
+  message: string
+}
+
+/**
+ * Result of comparing two versions of the same schema.
+ * The newer version is backward compatible if data valid against the older one stays valid.
+ */
+export class CompatibilityReport {
+  fromId: string
+  toId: string
+  issues: CompatibilityIssue[]
+
+  constructor(fromId: string, toId: string, issues: CompatibilityIssue[]) {
+    this.fromId = fromId
+    this.toId = toId
+    this.issues = issues
+  }
+
+  get compatible(): boolean {
+    return this.issues.length === 0
+  }
+
+  /**
+   * Convert issues to ValidationError objects so they can be shown alongside validation results.
+   */
+  toValidationErrors(): ValidationError[] {
+    return this.issues.map(issue => ({
+      instancePath: issue.path || '/',
+      schemaPath: '#',
+      keyword: 'compatibility',
+      message: `Breaking change since ${this.fromId}: ${issue.message}`,
+      params: { kind: issue.kind, fromId: this.fromId, toId: this.toId }
+    }))
+  }
+}
+
+// Lower bounds: the newer schema is narrower if the value grew
+const LOWER_BOUND_KEYWORDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties']
+// Upper bounds: the newer schema is narrower if the value shrank
+const UPPER_BOUND_KEYWORDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties']
+// Keywords that narrow the schema when added or changed
+const EXACT_KEYWORDS = ['pattern', 'format', 'multipleOf']
+
+interface VersionIds {
+  fromId: string
+  toId: string
+}
+
+/**
+ * Serialize a value for comparison. GTS schemas pin fields (e.g. "type") to their own ID,
+ * which changes with every version, so the older schema's ID counts as the newer one's.
+ */
+function valueKey(value: any, ids: VersionIds): string {
+  if (typeof value === 'string' && ids.fromId && normalizeGtsId(value) === ids.fromId) {
+    value = value.replace(ids.fromId, ids.toId)
+  }
+  return JSON.stringify(value)
+}
+
+function refOf(branch: any): string | undefined {
+  return branch && typeof branch.$ref === 'string' ? normalizeGtsId(branch.$ref) : undefined
+}
+
+function typesOf(schema: any): string[] | undefined {
+  if (schema.type === undefined) return undefined
+  return Array.isArray(schema.type) ? schema.type : [schema.type]
+}
+
+function isTypeCovered(oldType: string, newTypes: string[]): boolean {
+  if (newTypes.includes(oldType)) return true
+  // Every integer is a number
+  return oldType === 'integer' && newTypes.includes('number')
+}
+
+function compareNode(oldSchema: any, newSchema: any, path: string, ids: VersionIds, issues: CompatibilityIssue[]): void {
+  if (!oldSchema || typeof oldSchema !== 'object' || !newSchema || typeof newSchema !== 'object') return
+
+  // Types
+  const oldTypes = typesOf(oldSchema)
+  const newTypes = typesOf(newSchema)
+  if (newTypes && (!oldTypes || oldTypes.some(t => !isTypeCovered(t, newTypes)))) {
+    issues.push({
+      kind: 'type-narrowed',
+      path: path + '/type',
+      message: `type narrowed from ${oldTypes ? JSON.stringify(oldSchema.type) : 'any'} to ${JSON.stringify(newSchema.type)}`
+    })
+  }
+
+  // Enum and const
+  if (Array.isArray(newSchema.enum)) {
+    const newValues = newSchema.enum.map((v: any) => JSON.stringify(v))
+    const oldValues: any[] | undefined = Array.isArray(oldSchema.enum) ? oldSchema.enum : undefined
+    if (!oldValues) {
+      issues.push({ kind: 'enum-value-removed', path: path + '/enum', message: 'enum restriction added' })
+    } else {
+      for (const v of oldValues) {
+        if (!newValues.includes(valueKey(v, ids))) {
+          issues.push({ kind: 'enum-value-removed', path: path + '/enum', message: `enum value ${JSON.stringify(v)} removed` })
+        }
+      }
+    }
+  }
+  if (newSchema.const !== undefined && JSON.stringify(newSchema.const) !== valueKey(oldSchema.const, ids)) {
+    issues.push({
+      kind: 'const-changed',
+      path: path + '/const',
+      message: oldSchema.const === undefined
+        ? `const ${JSON.stringify(newSchema.const)} added`
+        : `const changed from ${JSON.stringify(oldSchema.const)} to ${JSON.stringify(newSchema.const)}`
+    })
+  }
+
+  // Numeric and length constraints
+  for (const kw of LOWER_BOUND_KEYWORDS) {
+    if (typeof newSchema[kw] === 'number' && !(typeof oldSchema[kw] === 'number' && oldSchema[kw] >= newSchema[kw])) {
+      issues.push({ kind: 'constraint-tightened', path: `${path}/${kw}`, message: `${kw} raised to ${newSchema[kw]}` })
+    }
+  }
+  for (const kw of UPPER_BOUND_KEYWORDS) {
+    if (typeof newSchema[kw] === 'number' && !(typeof oldSchema[kw] === 'number' && oldSchema[kw] <= newSchema[kw])) {
+      issues.push({ kind: 'constraint-tightened', path: `${path}/${kw}`, message: `${kw} lowered to ${newSchema[kw]}` })
+    }
+  }
+  for (const kw of EXACT_KEYWORDS) {
+    if (newSchema[kw] !== undefined && JSON.stringify(newSchema[kw]) !== JSON.stringify(oldSchema[kw])) {
+      issues.push({ kind: 'constraint-tightened', path: `${path}/${kw}`, message: `${kw} set to ${JSON.stringify(newSchema[kw])}` })
+    }
+  }
+
+  // Object properties
+  const oldProps = oldSchema.properties && typeof oldSchema.properties === 'object' ? oldSchema.properties : {}
+  const newProps = newSchema.properties && typeof newSchema.properties === 'object' ? newSchema.properties : {}
+  for (const name of Object.keys(oldProps)) {
+    const propPath = `${path}/properties/${escapePointerSegment(name)}`
+    if (!(name in newProps)) {
+      issues.push({ kind: 'property-removed', path: path + '/properties', message: `property '${name}' removed` })
+      continue
+    }
+    compareNode(oldProps[name], newProps[name], propPath, ids, issues)
+  }
+
+  const oldRequired: string[] = Array.isArray(oldSchema.required) ? oldSchema.required : []
+  const newRequired: string[] = Array.isArray(newSchema.required) ? newSchema.required : []
+  for (const name of newRequired) {
+    if (!oldRequired.includes(name)) {
+      issues.push({ kind: 'required-added', path: path + '/required', message: `property '${name}' is now required` })
+    }
+  }
+
+  if (newSchema.additionalProperties === false && oldSchema.additionalProperties !== false) {
+    issues.push({
+      kind: 'additional-properties-restricted',
+      path: path + '/additionalProperties',
+      message: 'additional properties are no longer allowed'
+    })
+  }
+
+  // Array items
+  if (oldSchema.items && newSchema.items && !Array.isArray(oldSchema.items) && !Array.isArray(newSchema.items)) {
+    compareNode(oldSchema.items, newSchema.items, path + '/items', ids, issues)
+  }
+
+  // allOf branches with a $ref are matched by it, inline branches in order
+  if (Array.isArray(oldSchema.allOf) && Array.isArray(newSchema.allOf)) {
+    const oldInline = oldSchema.allOf.filter((branch: any) => refOf(branch) === undefined)
+    let inlineIndex = 0
+    newSchema.allOf.forEach((branch: any, i: number) => {
+      const ref = refOf(branch)
+      const oldBranch = ref === undefined
+        ? oldInline[inlineIndex++]
+        : oldSchema.allOf.find((b: any) => refOf(b) === ref)
+      if (oldBranch !== undefined) {
+        compareNode(oldBranch, branch, `${path}/allOf/${i}`, ids, issues)
+      }
+    })
+  }
+}
+
+/**
+ * Compare two versions of a schema and report backward-incompatible changes.
+ *
+ * @param oldSchema - Content of the older schema version
+ * @param newSchema - Content of the newer schema version
+ * @param fromId - ID of the older version (for reporting)
+ * @param toId - ID of the newer version (for reporting)
+ * @returns A report listing every breaking change found
+ *
+ * @example
+ * const report = checkSchemaCompatibility(v10.content, v11.content, v10.id, v11.id)
+ * if (!report.compatible) console.log(report.issues)
+ */
+export function checkSchemaCompatibility(oldSchema: any, newSchema: any, fromId: string = '', toId: string = ''): CompatibilityReport {
+  const issues: CompatibilityIssue[] = []
+  compareNode(oldSchema, newSchema, '', { fromId: normalizeGtsId(fromId), toId: normalizeGtsId(toId) }, issues)
+  return new CompatibilityReport(fromId, toId, issues)
+}
@@ -0,0 +1,106 @@
+/**
+ * How reference cycles are reported: not at all, as warnings, or as errors
+ */
+export type CyclePolicy = 'allow' | 'warning' | 'error'
+
+export const DEFAULT_CYCLE_POLICY: CyclePolicy = 'warning'
+
+/**
+ * Graph a cycle was found in: schema $refs or GTS references between instances
+ */
+export type ReferenceCycleKind = 'schema' | 'instance'
+
+/**
+ * A reference from one entity to another
+ */
+export interface ReferenceEdge {
+  from: string
+  to: string
+  /** Where the reference appears in the referring entity (e.g. 'allOf[0].$ref') */
+  sourcePath: string
+}
+
+/**
+ * A closed chain of references, e.g. A -> B -> A
+ */
+export class ReferenceCycle {
+  kind: ReferenceCycleKind
+  /** The references forming the cycle; the last one points back to the first entity */
+  edges: ReferenceEdge[]
+
+  constructor(kind: ReferenceCycleKind, edges: ReferenceEdge[]) {
+    this.kind = kind
+    this.edges = edges
+  }
+
+  /** Entity IDs along the cycle, ending with the first ID again */
+  get path(): string[] {
+    return [...this.edges.map(e => e.from), this.edges[0].from]
+  }
+
+  /** True if the cycle contains a reference from one ID to the other */
+  hasEdge(from: string, to: string): boolean {
+    return this.edges.some(e => e.from === from && e.to === to)
+  }
+
+  toString(): string {
+    return this.path.join(' → ')
+  }
+}
+
+/**
+ * Find reference cycles in a directed graph. Every back edge found by a depth-first
+ * walk yields one cycle; a cycle is reported once regardless of where the walk entered it.
+ *
+ * @param edges - All references in the graph
+ * @param kind - Graph kind recorded on the cycles
+ * @returns The cycles found, each starting at its lexically smallest ID
+ */
+export function findReferenceCycles(edges: ReferenceEdge[], kind: ReferenceCycleKind): ReferenceCycle[] {
+  const outgoing = new Map<string, ReferenceEdge[]>()
+  for (const edge of edges) {
+    const list = outgoing.get(edge.from)
+    if (list) list.push(edge)
+    else outgoing.set(edge.from, [edge])
+  }
+
+  const cycles: ReferenceCycle[] = []
+  const seenCycles = new Set<string>()
+  const done = new Set<string>()
+  const stack: ReferenceEdge[] = []
+  const onStack = new Map<string, number>()
+
+  const visit = (id: string): void => {
+    onStack.set(id, stack.length)
+    for (const edge of outgoing.get(id) || []) {
+      const start = onStack.get(edge.to)
+      if (start !== undefined) {
+        addCycle([...stack.slice(start), edge])
+      } else if (!done.has(edge.to)) {
+        stack.push(edge)
+        visit(edge.to)
+        stack.pop()
+      }
+    }
+    onStack.delete(id)
+    done.add(id)
+  }
+
+  const addCycle = (cycleEdges: ReferenceEdge[]): void => {
+    // Rotate so the cycle starts at its smallest ID, making the key independent of the entry point
+    let first = 0
+    for (let i = 1; i < cycleEdges.length; i++) {
+      if (cycleEdges[i].from < cycleEdges[first].from) first = i
+    }
+    const rotated = [...cycleEdges.slice(first), ...cycleEdges.slice(0, first)]
+    const key = rotated.map(e => e.from).join('|')
+    if (seenCycles.has(key)) return
+    seenCycles.add(key)
+    cycles.push(new ReferenceCycle(kind, rotated))
+  }
+
+  for (const id of outgoing.keys()) {
+    if (!done.has(id)) visit(id)
+  }
+  return cycles
+}
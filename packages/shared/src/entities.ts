@@ -1,4 +1,6 @@
 import { parseJSONC } from './jsonc.js'
+import { parseYAML, isYamlFileName } from './yaml.js'
+import { CyclePolicy, DEFAULT_CYCLE_POLICY } from './cycles.js'
 
 // ---- Helpers  ----
 
@@ -104,11 +106,14 @@ export function decodeGtsId(id: string): string {
 export interface GtsConfig {
   entity_id_fields: string[]
   schema_id_fields: string[]
+  /** How reference cycles between schemas or instances are reported (default: 'warning') */
+  cycle_policy?: CyclePolicy
 }
 
 export const DEFAULT_GTS_CONFIG: GtsConfig = {
   entity_id_fields: ["$id","gtsId", "gtsIid", "gtsOid", "gtsI", "gts_id", "gts_oid", "gts_iid", "id"],
   schema_id_fields: ["$schema", "gtsTid", "gtsT", "gts_t", "gts_tid", "type", "schema"],
+  cycle_policy: DEFAULT_CYCLE_POLICY,
 }
 
 export function getGtsConfig(cfg?: GtsConfig): GtsConfig {
@@ -116,6 +121,7 @@ export function getGtsConfig(cfg?: GtsConfig): GtsConfig {
   let config = {...DEFAULT_GTS_CONFIG}
   if (cfg.entity_id_fields && cfg.entity_id_fields.length) config.entity_id_fields = cfg.entity_id_fields
   if (cfg.schema_id_fields && cfg.schema_id_fields.length) config.schema_id_fields = cfg.schema_id_fields
+  if (cfg.cycle_policy === 'allow' || cfg.cycle_policy === 'warning' || cfg.cycle_policy === 'error') config.cycle_policy = cfg.cycle_policy
   return config
 }
 
@@ -137,6 +143,8 @@ export interface ValidationError {
     params: Record<string, any>
     /** The actual value that failed validation (if applicable) */
     data?: any
+    /** Whether the problem fails validation or is only reported (default: 'error') */
+    severity?: 'error' | 'warning'
 }
 
 /**
@@ -163,21 +171,24 @@ export class JsonFile {
 
         this.validation = { errors: [] }
         if (typeof content === 'string') {
+            const isYaml = isYamlFileName(name)
             try {
-              const parsed = parseJSONC(content)
+              const parsed = isYaml ? parseYAML(content) : parseJSONC(content)
               this.content = parsed
             } catch (e) {
               this.validation.errors.push({
                   instancePath: '',
                   schemaPath: '#',
                   keyword: 'type',
-                  message: 'Invalid JSONC: ' + e,
+                  message: (isYaml ? 'Invalid YAML: ' : 'Invalid JSONC: ') + e,
                   params: { type: 'object' }
               })
             }
         }
 
-        Array.isArray(content) ? content : [content].forEach((item, index) => {
+        // Items of an array file or documents of a multi-document YAML stream
+        const items: any[] = Array.isArray(this.content) ? this.content : [this.content]
+        items.forEach((item, index) => {
             this.sequencesCount++
             this.sequenceContent.set(index, item)
         })
@@ -194,6 +205,8 @@ export class JsonEntity {
     gtsRefs?: Array<{ id: string; sourcePath: string }>
     validation?: ValidationResult
     schemaId?: string
+    /** Concrete schema version used for validation when schemaId is a major-only reference */
+    resolvedSchemaId?: string
     /** Which field produced id (e.g., "$id", "id") */
     selectedEntityIdField?: string
     /** Which field produced schemaId (e.g., "$schema", "type"); if derived from id, equals selectedEntityIdField */
@@ -0,0 +1,391 @@
+import type { JsonRegistry } from './registry.js'
+import type { ValidationResult } from './entities.js'
+import { GTS_REGEX, DEFAULT_GTS_CONFIG, decodeGtsId, normalizeGtsId } from './entities.js'
+import type { GtsConfig } from './entities.js'
+import { tryParseGtsId, isSameOrDerivedType } from './gts-id.js'
+import { mergeSchemas } from './inheritance.js'
+import { pointerSegments } from './json-pointer.js'
+import { isObject } from './schema-utils.js'
+
+export interface ExampleOptions {
+  /** Also fill optional properties, not only required ones (default: true) */
+  includeOptional?: boolean
+  /** Nesting depth below which objects and arrays are left empty (default: 8) */
+  maxDepth?: number
+  /** ID fields of the generated instance (default: DEFAULT_GTS_CONFIG) */
+  cfg?: GtsConfig
+}
+
+/**
+ * An example instance generated from a schema, with the result of validating it against that schema
+ */
+export interface GeneratedExample {
+  schemaId: string
+  instance: any
+  /** Undefined when validation is not available (VS Code webview) */
+  validation?: ValidationResult
+}
+
+// Last segment of the GTS IDs generated for example instances
+const EXAMPLE_INSTANCE_SEGMENT = 'x.examples.samples.sample.v1'
+
+const DEFAULT_MAX_DEPTH = 8
+
+// x-gts-ref value referring to the schema's own $id
+const SELF_REF = './$id'
+
+const FORMAT_EXAMPLES: Record<string, string> = {
+  'date-time': '2024-01-15T09:30:00Z',
+  date: '2024-01-15',
+  time: '09:30:00Z',
+  duration: 'P1D',
+  email: 'user@example.com',
+  'idn-email': 'user@example.com',
+  hostname: 'example.com',
+  'idn-hostname': 'example.com',
+  ipv4: '192.0.2.1',
+  ipv6: '2001:db8::1',
+  uri: 'https://example.com/resource',
+  'uri-reference': '/resource',
+  iri: 'https://example.com/resource',
+  'iri-reference': '/resource',
+  'uri-template': 'https://example.com/{id}',
+  'json-pointer': '/example',
+  'relative-json-pointer': '0/example',
+  regex: '^.*$'
+}
+
+function testPattern(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, 'u').test(value)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Best-effort string matching a regular expression: literals are kept, classes and escapes
+ * yield a representative character and alternations their first branch. Quantifiers repeat
+ * their minimum, or with eager at least once, which satisfies most lookaheads like (?!$).
+ */
+function samplePattern(pattern: string, eager: boolean): string {
+  let i = 0
+
+  const parseEscape = (): string => {
+    const char = pattern[i++]
+    switch (char) {
+      case 'd': return '0'
+      case 'D': case 'w': case 'S': return 'a'
+      case 'W': return '-'
+      case 's': return ' '
+      case 'b': case 'B': return ''
+      case 'n': return '\n'
+      case 't': return '\t'
+      default: return char ?? ''
+    }
+  }
+
+  const parseClass = (): string => {
+    const negated = pattern[i] === '^'
+    if (negated) i++
+    let first: string | undefined
+    while (i < pattern.length && pattern[i] !== ']') {
+      const char = pattern[i++]
+      const value = char === '\\' ? parseEscape() : char
+      if (first === undefined) first = value
+    }
+    i++
+    if (negated) return first === 'a' ? 'b' : 'a'
+    return first ?? ''
+  }
+
+  const parseQuantifier = (): [number, number] | undefined => {
+    const char = pattern[i]
+    let range: [number, number] | undefined
+    if (char === '?') range = [0, 1]
+    else if (char === '*') range = [0, Infinity]
+    else if (char === '+') range = [1, Infinity]
+    else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.substring(i))
+      if (!match) return undefined
+      const min = Number(match[1])
+      range = [min, match[2] ? (match[3] ? Number(match[3]) : Infinity) : min]
+      i += match[0].length - 1
+    }
+    if (!range) return undefined
+    i++
+    if (pattern[i] === '?') i++
+    return range
+  }
+
+  const parseAlternation = (): string => {
+    const branches: string[] = [parseSequence()]
+    while (pattern[i] === '|') {
+      i++
+      branches.push(parseSequence())
+    }
+    return branches[0]
+  }
+
+  const parseSequence = (): string => {
+    let result = ''
+    while (i < pattern.length && pattern[i] !== '|' && pattern[i] !== ')') {
+      const char = pattern[i++]
+      let atom: string
+      let lookaround = false
+      if (char === '^' || char === '$') {
+        atom = ''
+      } else if (char === '\\') {
+        atom = parseEscape()
+      } else if (char === '[') {
+        atom = parseClass()
+      } else if (char === '.') {
+        atom = 'a'
+      } else if (char === '(') {
+        if (pattern[i] === '?') {
+          lookaround = pattern[i + 1] === '=' || pattern[i + 1] === '!' || (pattern[i + 1] === '<' && (pattern[i + 2] === '=' || pattern[i + 2] === '!'))
+          if (pattern[i + 1] === '<' && !lookaround) i = pattern.indexOf('>', i) + 1
+          else i += pattern[i + 1] === '<' ? 3 : 2
+        }
+        atom = parseAlternation()
+        i++
+      } else {
+        atom = char
+      }
+      const quantifier = parseQuantifier()
+      if (lookaround) continue
+      if (!quantifier) {
+        result += atom
+        continue
+      }
+      const [min, max] = quantifier
+      result += atom.repeat(eager ? Math.min(Math.max(min, 1), max) : min)
+    }
+    return result
+  }
+
+  return parseAlternation()
+}
+
+/**
+ * Builds example values by walking a schema, resolving $refs through the registry
+ */
+class ExampleBuilder {
+  private uuidCounter = 0
+  private resolving = new Set<any>()
+  /** $refs whose values are being built, outermost first */
+  private expanding: string[] = []
+
+  constructor(
+    private readonly registry: JsonRegistry,
+    private readonly schemaId: string,
+    private readonly root: any,
+    private readonly options: Required<Omit<ExampleOptions, 'cfg'>> & { cfg: GtsConfig }
+  ) {}
+
+  build(): any {
+    return this.value(this.root, 0, true)
+  }
+
+  /**
+   * Schema behind a $ref: another registry schema (flattened), or a JSON Pointer into this one
+   */
+  private resolveRef(ref: string): any {
+    const [refId, fragment = ''] = decodeGtsId(ref).split('#')
+    let target = this.root
+    if (refId) {
+      target = this.registry.getEffectiveSchema(normalizeGtsId(refId))
+    }
+    for (const segment of pointerSegments(fragment)) {
+      target = target?.[segment]
+    }
+    return target
+  }
+
+  /**
+   * Inline $ref and nested allOf, so keywords of the referenced schemas apply
+   */
+  private normalize(schema: any): any {
+    if (!isObject(schema)) return schema
+    if (typeof schema.$ref === 'string' && !this.resolving.has(schema.$ref)) {
+      const { $ref, ...rest } = schema
+      this.resolving.add($ref)
+      const target = this.normalize(this.resolveRef($ref))
+      this.resolving.delete($ref)
+      schema = mergeSchemas([target, rest])
+    }
+    if (Array.isArray(schema.allOf)) {
+      const { allOf, ...rest } = schema
+      schema = mergeSchemas([...allOf.map((branch: any) => this.normalize(branch)), rest])
+    }
+    for (const keyword of ['oneOf', 'anyOf']) {
+      if (Array.isArray(schema[keyword]) && schema[keyword].length > 0) {
+        const { [keyword]: branches, ...rest } = schema
+        schema = this.normalize(mergeSchemas([rest, branches[0]]))
+      }
+    }
+    return schema
+  }
+
+  private value(rawSchema: any, depth: number, isRoot = false, name?: string): any {
+    const ref = isObject(rawSchema) && typeof rawSchema.$ref === 'string' ? rawSchema.$ref : undefined
+    if (ref === undefined) return this.schemaValue(this.normalize(rawSchema), depth, isRoot, name)
+    this.expanding.push(ref)
+    try {
+      return this.schemaValue(this.normalize(rawSchema), depth, isRoot, name)
+    } finally {
+      this.expanding.pop()
+    }
+  }
+
+  private schemaValue(schema: any, depth: number, isRoot: boolean, name?: string): any {
+    if (schema === true || schema === undefined) return 'example'
+    if (!isObject(schema)) return null
+
+    if (schema.const !== undefined) return schema.const
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0]
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0]
+    if (schema.default !== undefined) return schema.default
+
+    const types: string[] = Array.isArray(schema.type) ? schema.type : typeof schema.type === 'string' ? [schema.type] : []
+    const type = types.find(t => t !== 'null') ?? types[0] ?? (isObject(schema.properties) ? 'object' : undefined)
+    switch (type) {
+      case 'string': return this.stringValue(schema, name)
+      case 'number':
+      case 'integer': return this.numberValue(schema, type === 'integer')
+      case 'boolean': return true
+      case 'null': return null
+      case 'array': return this.arrayValue(schema, depth)
+      case 'object': return this.objectValue(schema, depth, isRoot)
+    }
+    return this.gtsIdValue(schema) ?? 'example'
+  }
+
+  private objectValue(schema: any, depth: number, isRoot: boolean): any {
+    const result: Record<string, any> = {}
+    if (depth >= this.options.maxDepth) return result
+    const properties = isObject(schema.properties) ? schema.properties : {}
+    const required: string[] = Array.isArray(schema.required) ? schema.required : []
+    for (const [name, propSchema] of Object.entries<any>(properties)) {
+      if (!required.includes(name)) {
+        // Optional recursive references are left out rather than expanded to maxDepth
+        if (!this.options.includeOptional) continue
+        if (isObject(propSchema) && this.expanding.includes(propSchema.$ref)) continue
+      }
+      if (propSchema === false) continue
+      const identity = isRoot ? this.identityValue(name, this.normalize(propSchema)) : undefined
+      result[name] = identity !== undefined ? identity : this.value(propSchema, depth + 1, false, name)
+    }
+    // Required properties the schema does not describe
+    for (const name of required) {
+      if (!(name in result)) result[name] = 'example'
+    }
+    return result
+  }
+
+  private arrayValue(schema: any, depth: number): any[] {
+    if (depth >= this.options.maxDepth) return []
+    const tuple: any[] | undefined = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : undefined
+    if (tuple) return tuple.map(item => this.value(item, depth + 1))
+
+    const minItems = typeof schema.minItems === 'number' ? schema.minItems : 0
+    const maxItems = typeof schema.maxItems === 'number' ? schema.maxItems : Infinity
+    const count = Math.min(Math.max(minItems, 1), maxItems)
+    const items: any[] = []
+    for (let n = 0; n < count; n++) items.push(this.value(schema.items, depth + 1))
+    return items
+  }
+
+  private numberValue(schema: any, integer: boolean): number {
+    const step = integer ? 1 : 0.5
+    let min: number | undefined = typeof schema.minimum === 'number' ? schema.minimum : undefined
+    if (typeof schema.exclusiveMinimum === 'number') min = Math.max(min ?? -Infinity, schema.exclusiveMinimum + step)
+    let max: number | undefined = typeof schema.maximum === 'number' ? schema.maximum : undefined
+    if (typeof schema.exclusiveMaximum === 'number') max = Math.min(max ?? Infinity, schema.exclusiveMaximum - step)
+
+    let value = min ?? (max !== undefined ? Math.min(0, max) : 0)
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      value = Math.ceil(value / schema.multipleOf) * schema.multipleOf
+    }
+    if (max !== undefined && value > max) value = min !== undefined ? (min + max) / 2 : max
+    return integer ? Math.ceil(value) : value
+  }
+
+  private stringValue(schema: any, name?: string): string {
+    const gtsId = this.gtsIdValue(schema)
+    if (gtsId !== undefined) return gtsId
+
+    let value: string | undefined
+    if (schema.format === 'uuid') {
+      value = `00000000-0000-4000-8000-${(++this.uuidCounter).toString(16).padStart(12, '0')}`
+    } else if (typeof schema.format === 'string' && FORMAT_EXAMPLES[schema.format]) {
+      value = FORMAT_EXAMPLES[schema.format]
+    }
+
+    if (typeof schema.pattern === 'string' && (value === undefined || !testPattern(schema.pattern, value))) {
+      const candidates = [samplePattern(schema.pattern, false), samplePattern(schema.pattern, true)]
+      value = candidates.find(candidate => testPattern(schema.pattern, candidate)) ?? value
+    }
+
+    if (value === undefined) value = name ? `example ${name}` : 'example'
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) value = value.padEnd(schema.minLength, 'x')
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) value = value.substring(0, schema.maxLength)
+    return value
+  }
+
+  /**
+   * A real GTS ID from the registry for fields declared with x-gts-ref / x-gts-type or a GTS ID pattern.
+   * For a base type, instances of it (or of a derived type) are preferred over the types themselves.
+   */
+  private gtsIdValue(schema: any): string | undefined {
+    const gtsRef = schema['x-gts-ref'] ?? schema['x-gts-type']
+    const pattern = typeof schema.pattern === 'string' && schema.pattern.includes('gts') ? schema.pattern : undefined
+    if (gtsRef === undefined && !pattern) return undefined
+    let matches = (_id: string) => true
+    if (typeof gtsRef === 'string' && gtsRef !== '*') {
+      // './$id' refers to the type being generated
+      const baseTypeId = gtsRef === SELF_REF ? this.schemaId : normalizeGtsId(gtsRef)
+      matches = (id) => isSameOrDerivedType(tryParseGtsId(id)?.typeId ?? '', baseTypeId)
+    }
+    const accepts = (id: string) => GTS_REGEX.test(id) && matches(id) && (!pattern || testPattern(pattern, id))
+    const instance = Array.from(this.registry.jsonObjs.keys()).sort().find(accepts)
+    return instance ?? Array.from(this.registry.jsonSchemas.keys()).sort().find(accepts)
+  }
+
+  /**
+   * Values of top-level ID fields: the schema ID for type fields, a new GTS instance ID of the type
+   * for an entity ID field that is a plain string (or typed './$id')
+   */
+  private identityValue(name: string, schema: any): string | undefined {
+    if (!isObject(schema) || schema.type !== 'string') return undefined
+    if (schema.const !== undefined || schema.enum !== undefined || schema.format !== undefined || schema.pattern !== undefined) return undefined
+    const gtsRef = schema['x-gts-ref'] ?? schema['x-gts-type']
+    if (gtsRef !== undefined && gtsRef !== SELF_REF) return undefined
+    if (this.options.cfg.schema_id_fields.includes(name)) {
+      return name === '$schema' ? `gts://${this.schemaId}` : this.schemaId
+    }
+    if (this.options.cfg.entity_id_fields.includes(name) && tryParseGtsId(this.schemaId)?.isType) {
+      return `${this.schemaId}${EXAMPLE_INSTANCE_SEGMENT}`
+    }
+    return undefined
+  }
+}
+
+/**
+ * Generate an example instance of a registry schema. The effective schema is used, so inherited
+ * (allOf) properties are included; required, enum, const, format, pattern (best-effort) and
+ * numeric bounds are respected, and GTS-typed fields get real IDs from the registry.
+ * The result is not validated; JsonRegistry.generateExample also validates it.
+ *
+ * @returns The instance, or undefined if the schema is not in the registry
+ */
+export function generateExampleInstance(registry: JsonRegistry, schemaId: string, options: ExampleOptions = {}): any {
+  const resolvedId = registry.resolveSchemaId(schemaId)
+  const effective = resolvedId !== undefined ? registry.getEffectiveSchema(resolvedId) : undefined
+  if (resolvedId === undefined || effective === undefined) return undefined
+  return new ExampleBuilder(registry, resolvedId, effective, {
+    includeOptional: options.includeOptional ?? true,
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    cfg: options.cfg ?? DEFAULT_GTS_CONFIG
+  }).build()
+}
@@ -0,0 +1,355 @@
+import { normalizeGtsId } from './entities.js'
+
+/** Prefix every canonical GTS identifier starts with */
+export const GTS_ID_PREFIX = 'gts.'
+
+/** Separator between chained segments; a trailing one marks a type ID */
+export const GTS_SEGMENT_SEPARATOR = '~'
+
+const TOKEN_START = /[a-z_]/
+const TOKEN_PART = /[a-z0-9_]/
+const DIGIT = /[0-9]/
+
+/**
+ * Error thrown when a GTS ID cannot be parsed.
+ * The offset points into the original (unnormalized) input string.
+ */
+export class GtsIdError extends Error {
+  /** The input that failed to parse */
+  input: string
+  /** Character offset of the failure within the input */
+  offset: number
+  /** Human-readable description of what was expected at the offset */
+  expected: string
+
+  constructor(input: string, offset: number, expected: string) {
+    const found = offset < input.length ? `'${input.charAt(offset)}'` : 'end of input'
+    super(`Invalid GTS ID at offset ${offset}: expected ${expected}, found ${found}`)
+    this.name = 'GtsIdError'
+    this.input = input
+    this.offset = offset
+    this.expected = expected
+  }
+}
+
+/**
+ * One chained segment of a GTS ID, e.g. "x.commerce.orders.order_placed.v1.0~"
+ */
+export class GtsIdSegment {
+  vendor: string
+  package: string
+  namespace: string
+  type: string
+  verMajor: number
+  verMinor?: number
+  /** True if the segment is terminated by '~' (i.e. it names a type) */
+  isType: boolean
+  /** Segment text including the trailing '~' if present */
+  text: string
+  /** Start offset of the segment within the original input */
+  start: number
+  /** End offset (exclusive) of the segment within the original input */
+  end: number
+
+  constructor(params: {
+    vendor: string
+    package: string
+    namespace: string
+    type: string
+    verMajor: number
+    verMinor?: number
+    isType: boolean
+    text: string
+    start: number
+    end: number
+  }) {
+    this.vendor = params.vendor
+    this.package = params.package
+    this.namespace = params.namespace
+    this.type = params.type
+    this.verMajor = params.verMajor
+    this.verMinor = params.verMinor
+    this.isType = params.isType
+    this.text = params.text
+    this.start = params.start
+    this.end = params.end
+  }
+
+  /** Version string as written, e.g. "v1" or "v1.0" */
+  get version(): string {
+    return this.verMinor === undefined ? `v${this.verMajor}` : `v${this.verMajor}.${this.verMinor}`
+  }
+
+  /** Segment name without version, e.g. "x.core.events.type" */
+  get name(): string {
+    return `${this.vendor}.${this.package}.${this.namespace}.${this.type}`
+  }
+}
+
+/**
+ * Parsed GTS identifier with all of its chained segments.
+ *
+ * @example
+ * const gid = parseGtsId('gts.x.core.events.type.v1~x.commerce.orders.order_placed.v1.0~')
+ * gid.segments.length // 2
+ * gid.isType          // true
+ * gid.typeChain       // ['gts.x.core.events.type.v1~', 'gts.x.core.events.type.v1~x.commerce.orders.order_placed.v1.0~']
+ */
+export class GtsId {
+  /** Canonical ID (gts:// prefix stripped) */
+  id: string
+  segments: GtsIdSegment[]
+
+  constructor(id: string, segments: GtsIdSegment[]) {
+    this.id = id
+    this.segments = segments
+  }
+
+  /** True if the ID names a type (ends with '~') */
+  get isType(): boolean {
+    return this.segments[this.segments.length - 1].isType
+  }
+
+  /** The last segment, which identifies this entity within its base type */
+  get lastSegment(): GtsIdSegment {
+    return this.segments[this.segments.length - 1]
+  }
+
+  /**
+   * The type this ID belongs to: the ID itself for types, the part up to the
+   * last '~' for chained instances, undefined for a bare single-segment instance.
+   */
+  get typeId(): string | undefined {
+    if (this.isType) return this.id
+    const lastTilde = this.id.lastIndexOf(GTS_SEGMENT_SEPARATOR)
+    return lastTilde > 0 ? this.id.substring(0, lastTilde + 1) : undefined
+  }
+
+  /**
+   * All type IDs along the chain, from the root base type to the most derived type.
+   * An instance ID contributes only its type segments.
+   */
+  get typeChain(): string[] {
+    const chain: string[] = []
+    let prefix = GTS_ID_PREFIX
+    for (const segment of this.segments) {
+      if (!segment.isType) break
+      prefix += segment.text
+      chain.push(prefix)
+    }
+    return chain
+  }
+
+  /**
+   * The base type of a chained type ID (the chain without its last segment),
+   * e.g. "gts.x.core.events.type.v1~" for "gts.x.core.events.type.v1~x.commerce.orders.order_placed.v1.0~".
+   * Undefined for root types and instances.
+   */
+  get parentTypeId(): string | undefined {
+    if (!this.isType) return undefined
+    const chain = this.typeChain
+    return chain.length > 1 ? chain[chain.length - 2] : undefined
+  }
+
+  /**
+   * The ID with the minor version of the last segment dropped,
+   * e.g. "gts.x.core.events.type.v1~x.commerce.orders.order_placed.v1~" for "...order_placed.v1.2~".
+   * All minor versions of the same type share this ID.
+   */
+  get majorVersionId(): string {
+    const last = this.lastSegment
+    const head = this.segments.slice(0, -1).map(s => s.text).join('')
+    return `${GTS_ID_PREFIX}${head}${last.name}.v${last.verMajor}${last.isType ? GTS_SEGMENT_SEPARATOR : ''}`
+  }
+
+  toString(): string {
+    return this.id
+  }
+}
+
+/**
+ * Parse a GTS identifier into its chained segments.
+ * The gts:// URI prefix and surrounding whitespace are accepted and stripped.
+ *
+ * @param input - The GTS identifier to parse
+ * @returns The parsed GtsId
+ * @throws GtsIdError with the offset of the first malformed character
+ */
+export function parseGtsId(input: string): GtsId {
+  if (typeof input !== 'string') {
+    throw new GtsIdError(String(input), 0, 'a string')
+  }
+  const id = normalizeGtsId(input)
+  // Offsets are reported against the original input
+  const base = input.indexOf(id)
+  let pos = 0
+
+  const fail = (expected: string): never => {
+    throw new GtsIdError(input, base + pos, expected)
+  }
+
+  const readToken = (what: string): string => {
+    const start = pos
+    if (pos >= id.length || !TOKEN_START.test(id.charAt(pos))) fail(what)
+    pos++
+    while (pos < id.length && TOKEN_PART.test(id.charAt(pos))) pos++
+    return id.substring(start, pos)
+  }
+
+  const readNumber = (what: string): number => {
+    const start = pos
+    if (pos >= id.length || !DIGIT.test(id.charAt(pos))) fail(what)
+    if (id.charAt(pos) === '0' && pos + 1 < id.length && DIGIT.test(id.charAt(pos + 1))) {
+      fail(`${what} without leading zeros`)
+    }
+    while (pos < id.length && DIGIT.test(id.charAt(pos))) pos++
+    return parseInt(id.substring(start, pos), 10)
+  }
+
+  const expectChar = (ch: string, what: string): void => {
+    if (id.charAt(pos) !== ch) fail(what)
+    pos++
+  }
+
+  if (!id.startsWith(GTS_ID_PREFIX)) fail(`'${GTS_ID_PREFIX}' prefix`)
+  pos = GTS_ID_PREFIX.length
+
+  const segments: GtsIdSegment[] = []
+  for (;;) {
+    const start = pos
+    const vendor = readToken('vendor')
+    expectChar('.', `'.' after vendor`)
+    const pkg = readToken('package')
+    expectChar('.', `'.' after package`)
+    const namespace = readToken('namespace')
+    expectChar('.', `'.' after namespace`)
+    const type = readToken('type name')
+    expectChar('.', `'.' after type name`)
+    expectChar('v', `version 'v<MAJOR>'`)
+    const verMajor = readNumber('major version')
+    let verMinor: number | undefined
+    if (id.charAt(pos) === '.') {
+      pos++
+      verMinor = readNumber('minor version')
+    }
+
+    let isType = false
+    if (pos < id.length) {
+      expectChar(GTS_SEGMENT_SEPARATOR, `'${GTS_SEGMENT_SEPARATOR}' or end of ID`)
+      isType = true
+    }
+
+    segments.push(new GtsIdSegment({
+      vendor,
+      package: pkg,
+      namespace,
+      type,
+      verMajor,
+      verMinor,
+      isType,
+      text: id.substring(start, pos),
+      start: base + start,
+      end: base + pos
+    }))
+
+    if (pos >= id.length) break
+  }
+
+  return new GtsId(id, segments)
+}
+
+/**
+ * Safely parse a GTS identifier.
+ * Returns null if parsing fails.
+ */
+export function tryParseGtsId(input: string): GtsId | null {
+  try {
+    return parseGtsId(input)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Resolve a major-only type reference (e.g. "...order_placed.v1~") to the highest
+ * available minor version of the same type (e.g. "...order_placed.v1.2~").
+ * Per GTS spec a reference without a minor version accepts any minor version of that major.
+ *
+ * @param id - The referenced type ID
+ * @param candidateIds - IDs available for resolution
+ * @returns The concrete ID picked, or undefined if the reference is not major-only or nothing matches
+ */
+export function resolveLatestMinorVersion(id: string, candidateIds: Iterable<string>): string | undefined {
+  const gtsId = tryParseGtsId(id)
+  if (!gtsId || !gtsId.isType || gtsId.lastSegment.verMinor !== undefined) return undefined
+
+  let best: GtsId | undefined
+  for (const candidateId of candidateIds) {
+    const candidate = tryParseGtsId(candidateId)
+    if (!candidate || !candidate.isType || candidate.lastSegment.verMinor === undefined) continue
+    if (candidate.majorVersionId !== gtsId.id) continue
+    if (!best || candidate.lastSegment.verMinor > best.lastSegment.verMinor!) {
+      best = candidate
+    }
+  }
+  return best?.id
+}
+
+/**
+ * Check whether a type is the given base type or derives from it through the ID chain,
+ * e.g. "gts.x.core.events.type.v1~x.commerce.orders.order_placed.v1.0~" derives from "gts.x.core.events.type.v1~".
+ * A major-only base matches any minor version of that major.
+ *
+ * @param typeId - The candidate type ID
+ * @param baseTypeId - The base type ID
+ */
+export function isSameOrDerivedType(typeId: string, baseTypeId: string): boolean {
+  const type = tryParseGtsId(typeId)
+  const base = tryParseGtsId(baseTypeId)
+  if (!type || !base || !base.isType || !type.isType) return false
+  const n = base.segments.length
+  if (type.segments.length < n) return false
+
+  for (let i = 0; i < n - 1; i++) {
+    if (type.segments[i].text !== base.segments[i].text) return false
+  }
+  const segment = type.segments[n - 1]
+  const baseSegment = base.segments[n - 1]
+  return segment.name === baseSegment.name &&
+    segment.verMajor === baseSegment.verMajor &&
+    (baseSegment.verMinor === undefined || segment.verMinor === baseSegment.verMinor)
+}
+
+/**
+ * Repair malformed version parts of a GTS ID: a missing or upper-case 'v' and leading zeros,
+ * e.g. "gts.x.core.events.type.V01~" becomes "gts.x.core.events.type.v1~".
+ *
+ * @param input - A GTS ID that fails to parse
+ * @returns The repaired ID, or undefined if the ID is already valid or has problems other than its versions
+ */
+export function repairGtsIdVersions(input: string): string | undefined {
+  const id = normalizeGtsId(input)
+  if (!id.startsWith(GTS_ID_PREFIX) || tryParseGtsId(id)) return undefined
+
+  const body = id.substring(GTS_ID_PREFIX.length)
+  const isType = body.endsWith(GTS_SEGMENT_SEPARATOR)
+  const segments = (isType ? body.slice(0, -1) : body).split(GTS_SEGMENT_SEPARATOR)
+
+  const repaired: string[] = []
+  for (const segment of segments) {
+    const parts = segment.split('.')
+    if (parts.length < 5 || parts.length > 6) return undefined
+    const major = /^[vV]?0*(\d+)$/.exec(parts[4])
+    if (!major) return undefined
+    let version = `v${parseInt(major[1], 10)}`
+    if (parts.length === 6) {
+      const minor = /^0*(\d+)$/.exec(parts[5])
+      if (!minor) return undefined
+      version += `.${parseInt(minor[1], 10)}`
+    }
+    repaired.push([...parts.slice(0, 4), version].join('.'))
+  }
+
+  const candidate = GTS_ID_PREFIX + repaired.join(GTS_SEGMENT_SEPARATOR) + (isType ? GTS_SEGMENT_SEPARATOR : '')
+  return tryParseGtsId(candidate) ? candidate : undefined
+}
@@ -1,37 +1,43 @@
 import { GTS_REGEX, normalizeGtsId } from './entities.js'
+import { tryParseGtsId } from './gts-id.js'
 
 /**
- * Parse a GTS ID string and extract its parts
- * For example: "gts.x.core.events.type.v1~x.commerce.orders.order_placed.v1.0~"
+ * One chained segment of a GTS ID as written, with the ID of the entity it names
+ */
+export interface GtsIdPart {
+  /** Text of the part, e.g. "x.commerce.orders.order_placed.v1.0~" */
+  text: string
+  /** ID of the entity the part names: the chain up to and including this part */
+  entityId: string
+}
+
+/**
+ * Split a GTS ID into its chained segments
+ * For example: "gts.x.core.events.type.v1~x.commerce.orders.order_placed.v1.0~x.shop.orders.order.v1"
  * Returns:
- * - Part 1: "gts.x.core.events.type.v1~" (schema type)
- * - Part 2: "x.commerce.orders.order_placed.v1.0~" (instance, if exists)
+ * - "gts.x.core.events.type.v1~" naming "gts.x.core.events.type.v1~" (base type)
+ * - "x.commerce.orders.order_placed.v1.0~" naming "gts.x.core.events.type.v1~x.commerce.orders.order_placed.v1.0~"
+ * - "x.shop.orders.order.v1" naming the whole ID (instance)
  *
  * Note: The input is normalized to strip gts:// prefix (per GTS spec).
+ * An ID that does not parse is returned as a single part.
  */
-export function parseGtsIdParts(gtsId: string): string[] {
+export function parseGtsIdParts(gtsId: string): GtsIdPart[] {
   // Normalize to strip gts:// prefix per GTS spec
   const normalizedId = normalizeGtsId(gtsId)
-  const parts: string[] = []
-
-  // Find the first tilde
-  const firstTildeIndex = normalizedId.indexOf('~')
-  if (firstTildeIndex === -1) {
-    // No tilde found, return the whole ID
-    return [normalizedId]
+  const parsed = tryParseGtsId(normalizedId)
+  if (!parsed) {
+    return [{ text: normalizedId, entityId: normalizedId }]
   }
 
-  // First part: from start to first tilde (inclusive)
-  const firstPart = normalizedId.substring(0, firstTildeIndex + 1)
-  parts.push(firstPart)
-
-  // Check if there's a second part after the first tilde
-  const remainingPart = normalizedId.substring(firstTildeIndex + 1)
-  if (remainingPart.length > 0) {
-    // Second part exists
-    parts.push(remainingPart)
+  // Each type in the chain ends where the next part starts; an instance segment is the rest
+  const parts: GtsIdPart[] = []
+  let offset = 0
+  for (const entityId of [...parsed.typeChain, parsed.id]) {
+    if (entityId.length === offset) continue
+    parts.push({ text: entityId.substring(offset), entityId })
+    offset = entityId.length
   }
-
   return parts
 }
 
@@ -107,18 +113,8 @@ export function analyzeGtsIdForStyling(
 
   let currentOffset = 0
   for (const part of parts) {
-    // Determine the full entity ID to look up
-    let entityIdToLookup: string
-    if (parts.length === 1) {
-      entityIdToLookup = part
-    } else if (part === parts[0]) {
-      entityIdToLookup = part
-    } else {
-      entityIdToLookup = parts[0] + part
-    }
-
     // Look up the entity
-    const lookupResult = entityLookup(entityIdToLookup)
+    const lookupResult = entityLookup(part.entityId)
 
     let segmentType: 'schema' | 'instance' | 'error'
     if (lookupResult.exists) {
@@ -128,14 +124,14 @@ export function analyzeGtsIdForStyling(
     }
 
     segments.push({
-      text: part,
+      text: part.text,
       type: segmentType,
-      entityId: entityIdToLookup,
+      entityId: part.entityId,
       startOffset: currentOffset,
-      endOffset: currentOffset + part.length
+      endOffset: currentOffset + part.text.length
     })
 
-    currentOffset += part.length
+    currentOffset += part.text.length
   }
 
   return { isValid: true, segments, originalId: normalizedId }
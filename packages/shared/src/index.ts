@@ -1,8 +1,22 @@
 export * from './types.js'
 export * from './entities.js'
 export { JsonRegistry } from './registry.js'
+export type { JsonFileInput, FileUpdateResult, PayloadValidationResult } from './registry.js'
 export * from './jsonc.js'
 export * from './yaml.js'
 export { isGtsCandidateFileName } from './registry.js'
 export { GTS_COLORS } from './entities.js'
 export * from './gts-styling.js'
+export * from './gts-id.js'
+export * from './compatibility.js'
+export * from './inheritance.js'
+export * from './bundle.js'
+export * from './cycles.js'
+export * from './lint.js'
+export * from './source-map.js'
+export * from './json-pointer.js'
+export * from './report.js'
+export * from './typegen.js'
+export * from './example.js'
+export * from './workspace-config.js'
+export * from './search.js'
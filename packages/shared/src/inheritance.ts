@@ -0,0 +1,181 @@
+import { pointerSegments } from './json-pointer.js'
+import { DOCUMENT_KEYWORDS, isObject } from './schema-utils.js'
+
+/**
+ * Resolves a $ref value to the schema it points to
+ */
+export type SchemaRefResolver = (ref: string) => { id: string; content: any } | undefined
+
+/**
+ * Merge schemas that all apply to the same data (allOf branches) into one.
+ * Properties are merged recursively and required lists are united; for any other
+ * keyword a later schema wins, so a derived schema listed last overrides its base.
+ *
+ * @param schemas - Schemas in base-to-derived order
+ * @param onPropertyMerged - Called with each property schema built from several definitions
+ * @returns The merged schema
+ */
+export function mergeSchemas(schemas: any[], onPropertyMerged?: (merged: any, definitions: any[]) => void): any {
+  const result: any = {}
+  for (const schema of schemas) {
+    if (!isObject(schema)) continue
+    for (const [key, value] of Object.entries(schema)) {
+      if (key === 'properties' && isObject(value) && isObject(result.properties)) {
+        const properties: any = { ...result.properties }
+        for (const [name, propSchema] of Object.entries(value as any)) {
+          if (isObject(properties[name]) && isObject(propSchema)) {
+            const definitions = [properties[name], propSchema]
+            properties[name] = mergeSchemas(definitions, onPropertyMerged)
+            onPropertyMerged?.(properties[name], definitions)
+          } else {
+            properties[name] = propSchema
+          }
+        }
+        result.properties = properties
+      } else if (key === 'required' && Array.isArray(value) && Array.isArray(result.required)) {
+        result.required = Array.from(new Set([...result.required, ...value]))
+      } else {
+        result[key] = value
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Options of flattenSchema
+ */
+export interface FlattenOptions {
+  /** ID of the flattened schema; a $ref back to it is not inlined */
+  id?: string
+  /**
+   * Also inline $refs outside allOf (of the schema itself, its properties and items),
+   * so the result shows the full shape of nested data
+   */
+  inlineRefs?: boolean
+  /** Called with each property schema (with inlineRefs) and the ID of the schema defining it */
+  onProperty?: (property: any, sourceId: string) => void
+  /** Called with each property schema built from several definitions (see mergeSchemas) */
+  onPropertyMerged?: (merged: any, definitions: any[]) => void
+}
+
+/**
+ * Produce the effective (flattened) schema of a type: allOf branches are inlined and
+ * $ref branches are resolved and flattened recursively, so the result lists every
+ * property the type inherits. Local refs ("#/...") point into the schema containing them.
+ * Branches that cannot be resolved stay in allOf.
+ *
+ * @param content - Schema content to flatten
+ * @param resolve - Resolver for $ref values naming another schema (without the "#..." fragment)
+ * @param options - See FlattenOptions
+ * @returns The flattened schema
+ *
+ * @example
+ * const effective = flattenSchema(derived.content, ref => {
+ *   const s = registry.jsonSchemas.get(decodeGtsId(ref))
+ *   return s && { id: s.id, content: s.content }
+ * })
+ */
+export function flattenSchema(content: any, resolve: SchemaRefResolver, options: FlattenOptions = {}): any {
+  const id = options.id ?? ''
+  return new SchemaFlattener(resolve, options, id).flatten(content, { id, content })
+}
+
+interface SchemaDocument {
+  id: string
+  content: any
+}
+
+class SchemaFlattener {
+  private resolve: SchemaRefResolver
+  private options: FlattenOptions
+  // Refs being inlined ("<schema ID>#<pointer>"), to stop at reference cycles
+  private visiting: Set<string>
+
+  constructor(resolve: SchemaRefResolver, options: FlattenOptions, rootId: string) {
+    this.resolve = resolve
+    this.options = options
+    this.visiting = new Set([`${rootId}#`])
+  }
+
+  flatten(node: any, document: SchemaDocument): any {
+    if (!isObject(node)) return node
+    const { inlineRefs, onProperty } = this.options
+
+    if (inlineRefs && typeof node.$ref === 'string') {
+      const base = this.inline(node.$ref, document)
+      if (base !== undefined) {
+        // Keywords next to $ref refine the referenced schema
+        const { $ref: _ref, ...rest } = node
+        return this.merge([base, this.flatten(rest, document)])
+      }
+    }
+    if (!inlineRefs && !Array.isArray(node.allOf)) return node
+
+    const { allOf, ...own } = node
+    if (inlineRefs && isObject(own.properties)) {
+      const properties: any = {}
+      for (const [name, property] of Object.entries(own.properties)) {
+        properties[name] = this.flatten(property, document)
+        if (isObject(properties[name])) onProperty?.(properties[name], document.id)
+      }
+      own.properties = properties
+    }
+    if (inlineRefs && isObject(own.items)) {
+      own.items = this.flatten(own.items, document)
+    }
+    if (!Array.isArray(allOf)) return own
+
+    const parts: any[] = []
+    const unresolved: any[] = []
+    for (const branch of allOf) {
+      if (isObject(branch) && typeof branch.$ref === 'string') {
+        const base = this.inline(branch.$ref, document)
+        if (base === undefined) {
+          unresolved.push(branch)
+          continue
+        }
+        const { $ref: _ref, ...rest } = branch
+        parts.push(base, this.flatten(rest, document))
+      } else {
+        parts.push(this.flatten(branch, document))
+      }
+    }
+
+    const merged = this.merge([...parts, own])
+    if (unresolved.length > 0) {
+      merged.allOf = unresolved
+    }
+    return merged
+  }
+
+  private merge(schemas: any[]): any {
+    return mergeSchemas(schemas, this.options.onPropertyMerged)
+  }
+
+  /**
+   * Flattened schema a $ref points to, without its document keywords.
+   * Undefined if the ref cannot be resolved or is already being inlined.
+   */
+  private inline(ref: string, document: SchemaDocument): any | undefined {
+    const hashIndex = ref.indexOf('#')
+    const schemaRef = hashIndex < 0 ? ref : ref.slice(0, hashIndex)
+    const pointer = hashIndex < 0 ? '' : ref.slice(hashIndex + 1)
+    const target = schemaRef ? this.resolve(schemaRef) : document
+    if (!target) return undefined
+
+    let node = target.content
+    for (const segment of pointerSegments(pointer)) {
+      node = node?.[segment]
+    }
+    const key = `${target.id}#${pointer}`
+    if (node === undefined || this.visiting.has(key)) return undefined
+
+    this.visiting.add(key)
+    const flattened = this.flatten(node, target)
+    this.visiting.delete(key)
+    const base = isObject(flattened) ? { ...flattened } : {}
+    for (const kw of DOCUMENT_KEYWORDS) delete base[kw]
+    return base
+  }
+}
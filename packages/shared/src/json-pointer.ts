@@ -0,0 +1,20 @@
+/**
+ * Escape a key as a JSON Pointer segment ("~" -> "~0", "/" -> "~1")
+ */
+export function escapePointerSegment(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Key named by an escaped JSON Pointer segment ("~1" -> "/", "~0" -> "~")
+ */
+export function unescapePointerSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+/**
+ * Split a JSON Pointer (e.g. '/payload/items/0') into unescaped segments. Both '' and '/' denote the root.
+ */
+export function pointerSegments(pointer: string): string[] {
+  return pointer.split('/').filter(s => s !== '').map(unescapePointerSegment)
+}
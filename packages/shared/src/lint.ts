@@ -0,0 +1,355 @@
+import { JsonSchema, GTS_REGEX, decodeGtsId, normalizeGtsId } from './entities.js'
+import type { JsonEntity, ValidationError } from './entities.js'
+import { tryParseGtsId, type GtsIdSegment } from './gts-id.js'
+import { escapePointerSegment } from './json-pointer.js'
+
+/** Workspace file holding lint configuration; picked up by JsonRegistry wherever it is ingested */
+export const LINT_CONFIG_FILE_NAME = '.gts-lint.json'
+
+/**
+ * Severity of a lint rule; 'off' disables it
+ */
+export type LintSeverity = 'off' | 'warning' | 'error'
+
+/**
+ * Per-rule setting: a severity, or a severity with rule options (e.g. ["error", { "vendors": ["x"] }])
+ */
+export type LintRuleConfig = LintSeverity | [LintSeverity, Record<string, any>]
+
+/**
+ * Lint configuration as stored in the workspace lint file
+ */
+export interface LintConfig {
+  rules?: Record<string, LintRuleConfig>
+}
+
+/**
+ * A single problem reported by a lint rule
+ */
+export interface LintFinding {
+  /** JSON Pointer into the entity content (e.g. '/properties/payload') */
+  instancePath: string
+  /** Human-readable description of the problem */
+  message: string
+  params?: Record<string, any>
+}
+
+/**
+ * A lint rule checking one GTS convention on an entity
+ */
+export interface LintRule {
+  /** Rule name used in configuration and reports (e.g. 'schema-description') */
+  name: string
+  description: string
+  /** Severity used when the configuration does not mention the rule */
+  defaultSeverity: LintSeverity
+  /** Options used when the configuration gives none */
+  defaultOptions?: Record<string, any>
+  check(entity: JsonEntity, options: Record<string, any>): LintFinding[]
+}
+
+const LINT_SEVERITIES: LintSeverity[] = ['off', 'warning', 'error']
+const LINT_KEYWORD_PREFIX = 'lint/'
+const SNAKE_CASE = /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/
+
+/**
+ * Visit every object node of a JSON document with its JSON Pointer
+ */
+function walkNodes(node: any, pointer: string, visit: (node: any, pointer: string) => void): void {
+  if (!node || typeof node !== 'object') return
+  if (Array.isArray(node)) {
+    node.forEach((item, i) => walkNodes(item, `${pointer}/${i}`, visit))
+    return
+  }
+  visit(node, pointer)
+  for (const [key, value] of Object.entries(node)) {
+    walkNodes(value, `${pointer}/${escapePointerSegment(key)}`, visit)
+  }
+}
+
+/**
+ * The segment an entity defines itself: the last segment of its GTS ID
+ */
+function ownSegment(entity: JsonEntity): GtsIdSegment | undefined {
+  return tryParseGtsId(entity.id)?.lastSegment
+}
+
+const schemaDescriptionRule: LintRule = {
+  name: 'schema-description',
+  description: 'Every schema should have a top-level description',
+  defaultSeverity: 'warning',
+  check(entity) {
+    if (!(entity instanceof JsonSchema)) return []
+    const description = entity.content?.description
+    if (typeof description === 'string' && description.trim()) return []
+    return [{ instancePath: '/', message: 'Schema has no description' }]
+  }
+}
+
+const payloadAdditionalPropertiesRule: LintRule = {
+  name: 'payload-additional-properties',
+  description: 'Event payload objects should set additionalProperties: false',
+  defaultSeverity: 'warning',
+  defaultOptions: { properties: ['payload'] },
+  check(entity, options) {
+    if (!(entity instanceof JsonSchema)) return []
+    const names: string[] = Array.isArray(options.properties) ? options.properties : []
+    const findings: LintFinding[] = []
+    walkNodes(entity.content, '', (node, pointer) => {
+      if (!node.properties || typeof node.properties !== 'object') return
+      for (const name of names) {
+        const payload = node.properties[name]
+        if (!payload || typeof payload !== 'object') continue
+        const isObject = payload.type === 'object' || (payload.properties && typeof payload.properties === 'object')
+        if (isObject && payload.additionalProperties !== false) {
+          findings.push({
+            instancePath: `${pointer}/properties/${escapePointerSegment(name)}`,
+            message: `Payload '${name}' should set additionalProperties: false`,
+            params: { property: name }
+          })
+        }
+      }
+    })
+    return findings
+  }
+}
+
+const vendorAllowListRule: LintRule = {
+  name: 'vendor-allow-list',
+  description: 'GTS IDs must use a vendor from the allow-list',
+  defaultSeverity: 'error',
+  defaultOptions: { vendors: [] },
+  check(entity, options) {
+    const vendors: string[] = Array.isArray(options.vendors) ? options.vendors : []
+    const segment = ownSegment(entity)
+    // An empty allow-list means every vendor is allowed
+    if (!segment || vendors.length === 0 || vendors.includes(segment.vendor)) return []
+    return [{
+      instancePath: '/',
+      message: `Vendor '${segment.vendor}' is not in the allow-list (${vendors.join(', ')})`,
+      params: { vendor: segment.vendor, vendors }
+    }]
+  }
+}
+
+const segmentSnakeCaseRule: LintRule = {
+  name: 'segment-snake-case',
+  description: 'GTS ID segment names (vendor, package, namespace, type) must be snake_case',
+  defaultSeverity: 'warning',
+  check(entity) {
+    const segment = ownSegment(entity)
+    if (!segment) return []
+    const parts: Array<[string, string]> = [
+      ['vendor', segment.vendor],
+      ['package', segment.package],
+      ['namespace', segment.namespace],
+      ['type', segment.type]
+    ]
+    return parts
+      // A bare '_' is the GTS placeholder for an unused segment (e.g. "x.commerce._.orders.v1.0")
+      .filter(([, value]) => value !== '_' && !SNAKE_CASE.test(value))
+      .map(([part, value]) => ({
+        instancePath: '/',
+        message: `GTS ID ${part} '${value}' is not snake_case`,
+        params: { part, value }
+      }))
+  }
+}
+
+const gtsRefRequiresRefRule: LintRule = {
+  name: 'x-gts-ref-requires-ref',
+  description: 'x-gts-ref must be accompanied by a $ref to the same type',
+  defaultSeverity: 'error',
+  check(entity) {
+    if (!(entity instanceof JsonSchema)) return []
+    const findings: LintFinding[] = []
+    walkNodes(entity.content, '', (node, pointer) => {
+      const gtsRef = node['x-gts-ref']
+      if (gtsRef === undefined) return
+      if (typeof node.$ref !== 'string') {
+        findings.push({
+          instancePath: `${pointer}/x-gts-ref`,
+          message: 'x-gts-ref without a matching $ref',
+          params: { gtsRef }
+        })
+        return
+      }
+      // Wildcards and relative pointers (e.g. '*', '/$id') cannot be compared with the $ref
+      if (typeof gtsRef === 'string' && GTS_REGEX.test(normalizeGtsId(gtsRef)) &&
+          normalizeGtsId(gtsRef) !== decodeGtsId(node.$ref).split('#')[0]) {
+        findings.push({
+          instancePath: `${pointer}/x-gts-ref`,
+          message: `x-gts-ref ${gtsRef} does not match $ref ${node.$ref}`,
+          params: { gtsRef, ref: node.$ref }
+        })
+      }
+    })
+    return findings
+  }
+}
+
+/** Rules every LintEngine starts with */
+export const BUILTIN_LINT_RULES: LintRule[] = [
+  schemaDescriptionRule,
+  payloadAdditionalPropertiesRule,
+  vendorAllowListRule,
+  segmentSnakeCaseRule,
+  gtsRefRequiresRefRule
+]
+
+function isLintSeverity(value: any): value is LintSeverity {
+  return LINT_SEVERITIES.includes(value)
+}
+
+function isLintRuleConfig(value: any): boolean {
+  return isLintSeverity(value) || (Array.isArray(value) && value.length <= 2 && isLintSeverity(value[0]) &&
+    (value[1] === undefined || (!!value[1] && typeof value[1] === 'object' && !Array.isArray(value[1]))))
+}
+
+/**
+ * Read lint configuration from parsed file content. Invalid rule settings are dropped
+ * (validateLintConfig reports them).
+ *
+ * @example
+ * parseLintConfig({ rules: { 'schema-description': 'off', 'vendor-allow-list': ['error', { vendors: ['x'] }] } })
+ */
+export function parseLintConfig(content: any): LintConfig {
+  const rules: Record<string, LintRuleConfig> = {}
+  const input = content && typeof content === 'object' ? content.rules : undefined
+  if (!input || typeof input !== 'object') return { rules }
+
+  for (const [name, value] of Object.entries(input)) {
+    if (!isLintRuleConfig(value)) continue
+    rules[name] = Array.isArray(value) ? [value[0], value[1] ?? {}] : value as LintSeverity
+  }
+  return { rules }
+}
+
+/**
+ * Check parsed content of the workspace lint file
+ *
+ * @returns One problem per invalid rule setting, empty if the configuration is valid
+ */
+export function validateLintConfig(content: any): ValidationError[] {
+  const problem = (instancePath: string, message: string, params: Record<string, any> = {}): ValidationError => ({
+    instancePath,
+    schemaPath: '#',
+    keyword: 'lint-config',
+    message: `Lint file: ${message}`,
+    params
+  })
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    return [problem('', 'must be an object')]
+  }
+  const rules = content.rules
+  if (rules === undefined) return []
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    return [problem('/rules', 'rules must be an object')]
+  }
+  return Object.entries(rules)
+    .filter(([, value]) => !isLintRuleConfig(value))
+    .map(([name]) => problem(
+      `/rules/${escapePointerSegment(name)}`,
+      `invalid setting for rule '${name}', expected one of ${LINT_SEVERITIES.join(', ')} or [severity, options]`,
+      // Not 'rule': that names the lint rule reporting a finding
+      { setting: name }
+    ))
+}
+
+/**
+ * Keyword of the findings of a lint rule (e.g. 'lint/schema-description'), used as rule ID in reports
+ */
+export function lintKeyword(ruleName: string): string {
+  return LINT_KEYWORD_PREFIX + ruleName
+}
+
+/**
+ * Check whether a path names the workspace lint configuration file (cross-platform, browser-safe)
+ */
+export function isLintConfigPath(filePath: string): boolean {
+  const name = filePath.split(/[\\\/]/).pop()
+  return name === LINT_CONFIG_FILE_NAME
+}
+
+/**
+ * Runs lint rules on entities and reports findings as ValidationError objects,
+ * so they are shown wherever validation results are.
+ *
+ * @example
+ * const engine = new LintEngine({ rules: { 'schema-description': 'error' } })
+ * engine.registerRule(myRule)
+ * entity.validation.errors.push(...engine.lint(entity))
+ */
+export class LintEngine {
+  private rules: Map<string, LintRule>
+  private config: LintConfig
+
+  constructor(config: LintConfig = {}, rules: LintRule[] = BUILTIN_LINT_RULES) {
+    this.rules = new Map<string, LintRule>()
+    this.config = config
+    for (const rule of rules) this.registerRule(rule)
+  }
+
+  /**
+   * Add a rule, replacing any rule with the same name
+   */
+  registerRule(rule: LintRule): void {
+    this.rules.set(rule.name, rule)
+  }
+
+  getRules(): LintRule[] {
+    return Array.from(this.rules.values())
+  }
+
+  setConfig(config: LintConfig): void {
+    this.config = config
+  }
+
+  getConfig(): LintConfig {
+    return this.config
+  }
+
+  /**
+   * Effective severity and options of a rule under the current configuration
+   */
+  getRuleSetting(rule: LintRule): { severity: LintSeverity; options: Record<string, any> } {
+    const setting = this.config.rules?.[rule.name]
+    if (setting === undefined) {
+      return { severity: rule.defaultSeverity, options: { ...rule.defaultOptions } }
+    }
+    if (Array.isArray(setting)) {
+      return { severity: setting[0], options: { ...rule.defaultOptions, ...setting[1] } }
+    }
+    return { severity: setting, options: { ...rule.defaultOptions } }
+  }
+
+  /**
+   * Run all enabled rules on an entity. A rule that throws is reported as a finding of that rule.
+   */
+  lint(entity: JsonEntity): ValidationError[] {
+    const errors: ValidationError[] = []
+    for (const rule of this.rules.values()) {
+      const { severity, options } = this.getRuleSetting(rule)
+      if (severity === 'off') continue
+
+      let findings: LintFinding[]
+      try {
+        findings = rule.check(entity, options)
+      } catch (error: any) {
+        findings = [{ instancePath: '/', message: `Lint rule failed: ${error?.message || error}` }]
+      }
+
+      for (const finding of findings) {
+        errors.push({
+          instancePath: finding.instancePath || '/',
+          schemaPath: '#',
+          keyword: lintKeyword(rule.name),
+          message: `${finding.message} (${rule.name})`,
+          params: { rule: rule.name, ...finding.params },
+          severity
+        })
+      }
+    }
+    return errors
+  }
+}
@@ -1,5 +1,13 @@
-import { JsonFile, JsonObj, JsonSchema, createEntity, getGtsConfig, decodeGtsId, createAbsentEntity, normalizeGtsId } from './entities.js'
+import { JsonFile, JsonObj, JsonSchema, createEntity, decodeGtsId, createAbsentEntity, normalizeGtsId } from './entities.js'
 import type { GtsConfig, JsonEntity, ValidationResult, ValidationError } from './entities.js'
+import { tryParseGtsId, resolveLatestMinorVersion, isSameOrDerivedType } from './gts-id.js'
+import { checkSchemaCompatibility, type CompatibilityReport } from './compatibility.js'
+import { flattenSchema } from './inheritance.js'
+import { bundleSchema } from './bundle.js'
+import { LintEngine, isLintConfigPath, parseLintConfig, validateLintConfig, type LintConfig } from './lint.js'
+import { parseWorkspaceConfig, validateWorkspaceConfig, applyWorkspaceGtsConfig, isWorkspaceConfigPath, isIgnoredPath, workspaceRootOf, type WorkspaceConfig } from './workspace-config.js'
+import { generateExampleInstance, type ExampleOptions, type GeneratedExample } from './example.js'
+import { ReferenceCycle, findReferenceCycles, DEFAULT_CYCLE_POLICY, type CyclePolicy, type ReferenceEdge } from './cycles.js'
 import Ajv, { type ValidateFunction, type ErrorObject } from 'ajv'
 import addFormats from 'ajv-formats'
 import * as path from 'path'
@@ -11,6 +19,64 @@ function normalizeToArray(content: any): any[] {
   return Array.isArray(content) ? content : [content]
 }
 
+/**
+ * Minor version of a type ID's last segment; a major-only ID (e.g. "v1~") sorts before "v1.0~"
+ */
+function minorVersionOf(id: string): number {
+  return tryParseGtsId(id)?.lastSegment.verMinor ?? -1
+}
+
+/**
+ * Files in the .gts-viewer directory hold viewer state, not GTS entities (cross-platform, browser-safe)
+ */
+function isViewerStatePath(filePath: string): boolean {
+  return /(^|[\\\/])\.gts-viewer[\\\/]/.test(filePath)
+}
+
+/**
+ * Convert a reference sourcePath in dot notation to a JSON Pointer,
+ * e.g. "contact.gtsIid" -> "/contact/gtsIid", "items[0].$ref" -> "/items/0/$ref", "root" -> "/"
+ */
+function sourcePathToPointer(sourcePath: string): string {
+  return sourcePath === 'root'
+    ? '/'
+    : '/' + sourcePath.replace(/\./g, '/').replace(/\[(\d+)\]/g, '/$1')
+}
+
+/**
+ * A file already loaded into memory, as passed to JsonRegistry.ingestFiles / updateFile
+ */
+export interface JsonFileInput {
+  path: string
+  name: string
+  content: any
+}
+
+/**
+ * Result of JsonRegistry.updateFile / removeFile
+ */
+export interface FileUpdateResult {
+  /** False if the registry already had this content, or never had the removed file */
+  changed: boolean
+  /** Entities re-validated by the change */
+  revalidated: JsonEntity[]
+}
+
+/**
+ * Result of validating a payload that is not part of the registry (see JsonRegistry.validatePayload)
+ */
+export interface PayloadValidationResult {
+  /** Entity ID read from the payload, if any */
+  id?: string
+  /** Schema ID read from the payload, and the schema it resolved to if that differs */
+  schemaId?: string
+  resolvedSchemaId?: string
+  isSchema: boolean
+  /** False if any error has error severity */
+  valid: boolean
+  errors: ValidationError[]
+}
+
 /**
  * JsonRegistry: central store and fetch cache for JsonFile/JsonObj/JsonSchema
  */
@@ -23,7 +89,24 @@ export class JsonRegistry {
   jsonFileObjs: Map<string, JsonObj[]>
   jsonFileSchemas: Map<string, JsonSchema[]>
   absentGtsEntities: Map<string, JsonEntity>
+  /** Major-only references met during validation, resolved to a concrete minor version (requested ID -> picked ID) */
+  resolvedVersions: Map<string, string>
+  /** Reference cycles found by the last validation pass */
+  cycles: ReferenceCycle[]
+  /** Lint rules run on every validated entity; configured by the workspace lint file and workspace config */
+  lintEngine: LintEngine
 
+  // How cycles are reported on their member entities
+  private cyclePolicy: CyclePolicy
+  // Settings of the workspace config file and the folder it applies to
+  private workspaceConfig: WorkspaceConfig | null
+  private workspaceRoot: string
+  // Rules of the workspace lint file, applied over the workspace config's lint rules
+  private lintFileConfig: LintConfig
+  // Serialized content of the settings files last applied, by path, so re-applying unchanged content is a no-op
+  private settingsFiles: Map<string, string>
+  // Reverse dependency index: referenced ID -> IDs of entities whose validation depends on it
+  private dependents: Map<string, Set<string>>
   // Centralized fetch cache
   private fetchCache: Map<string, Promise<any>>
   // Default file to open/select when displaying layout
@@ -38,6 +121,15 @@ export class JsonRegistry {
     this.jsonFileObjs = new Map<string, JsonObj[]>()
     this.jsonFileSchemas = new Map<string, JsonSchema[]>()
     this.absentGtsEntities = new Map<string, JsonEntity>()
+    this.resolvedVersions = new Map<string, string>()
+    this.dependents = new Map<string, Set<string>>()
+    this.cycles = []
+    this.lintEngine = new LintEngine()
+    this.cyclePolicy = DEFAULT_CYCLE_POLICY
+    this.workspaceConfig = null
+    this.workspaceRoot = ''
+    this.lintFileConfig = {}
+    this.settingsFiles = new Map<string, string>()
     this.defaultFilePath = null
   }
 
@@ -49,6 +141,14 @@ export class JsonRegistry {
     this.fetchCache.clear()
     this.jsonFileObjs.clear()
     this.jsonFileSchemas.clear()
+    this.resolvedVersions.clear()
+    this.dependents.clear()
+    this.cycles = []
+    this.lintEngine.setConfig({})
+    this.workspaceConfig = null
+    this.workspaceRoot = ''
+    this.lintFileConfig = {}
+    this.settingsFiles.clear()
     this.defaultFilePath = null
   }
 
@@ -64,14 +164,17 @@ export class JsonRegistry {
     }
     if (this.jsonFileObjs.has(path)) {
       for (const obj of this.jsonFileObjs.get(path)!) {
-        this.jsonObjs.delete(obj.id)
+        this.unindexDependencies(obj)
+        // Another file may have since registered an entity with the same ID
+        if (this.jsonObjs.get(obj.id) === obj) this.jsonObjs.delete(obj.id)
       }
       this.jsonFileObjs.delete(path)
       this.jsonFileObjs.set(path, [])
     }
     if (this.jsonFileSchemas.has(path)) {
       for (const schema of this.jsonFileSchemas.get(path)!) {
-        this.jsonSchemas.delete(schema.id)
+        this.unindexDependencies(schema)
+        if (this.jsonSchemas.get(schema.id) === schema) this.jsonSchemas.delete(schema.id)
       }
       this.jsonFileSchemas.delete(path)
       this.jsonFileSchemas.set(path, [])
@@ -98,10 +201,10 @@ export class JsonRegistry {
       return
     }
 
-    // Normalize content to array and process each entity
-    const entities = normalizeToArray(content)
+    // Normalize content to array and process each entity; array items and YAML documents keep their index
+    const entities = normalizeToArray(jsonFile.content)
     entities.forEach((entityContent: any, idx: number) => {
-      const seq = Array.isArray(content) ? idx : undefined
+      const seq = Array.isArray(jsonFile.content) ? idx : undefined
       const entity = createEntity({
         file: jsonFile,
         listSequence: seq,
@@ -111,6 +214,7 @@ export class JsonRegistry {
 
       if (entity && entity.isGtsEntity()) {
         hasGtsEntities = true
+        this.indexDependencies(entity)
         if (entity instanceof JsonSchema) {
           this.jsonSchemas.set(entity.id, entity)
           this.jsonFileSchemas.set(path, [...this.jsonFileSchemas.get(path) || [], entity])
@@ -127,26 +231,108 @@ export class JsonRegistry {
     }
   }
 
+  /**
+   * IDs an entity's validation depends on: its schema, its $ref targets and the GTS IDs it references.
+   */
+  private dependencyIdsOf(entity: JsonEntity): string[] {
+    const ids = new Set<string>()
+    if (entity instanceof JsonObj && entity.schemaId) {
+      ids.add(normalizeGtsId(entity.schemaId))
+    }
+    if (entity instanceof JsonSchema) {
+      for (const ref of entity.schemaRefs) ids.add(decodeGtsId(ref.id))
+    }
+    for (const ref of entity.gtsRefs || []) {
+      ids.add(normalizeGtsId(ref.id))
+    }
+    ids.delete(entity.id)
+    return Array.from(ids)
+  }
+
+  private indexDependencies(entity: JsonEntity): void {
+    for (const id of this.dependencyIdsOf(entity)) {
+      let set = this.dependents.get(id)
+      if (!set) {
+        set = new Set<string>()
+        this.dependents.set(id, set)
+      }
+      set.add(entity.id)
+    }
+  }
+
+  private unindexDependencies(entity: JsonEntity): void {
+    for (const id of this.dependencyIdsOf(entity)) {
+      const set = this.dependents.get(id)
+      if (!set) continue
+      set.delete(entity.id)
+      if (set.size === 0) this.dependents.delete(id)
+    }
+  }
+
+  /**
+   * Collect entities that must be re-validated when the given IDs appear, change or disappear.
+   * Dependents of a schema are followed transitively, since its $ref closure is compiled into
+   * every schema and object that references it; other entities only need to exist.
+   */
+  private collectAffectedEntities(changedIds: Iterable<string>): JsonEntity[] {
+    const queue: string[] = []
+    for (const id of changedIds) {
+      queue.push(id)
+      // A new or removed minor version changes what a major-only reference resolves to
+      const gtsId = tryParseGtsId(id)
+      if (gtsId?.isType && gtsId.lastSegment.verMinor !== undefined) {
+        this.resolvedVersions.delete(gtsId.majorVersionId)
+        queue.push(gtsId.majorVersionId)
+      }
+    }
+
+    const seen = new Set<string>(queue)
+    const affected = new Map<string, JsonEntity>()
+    while (queue.length > 0) {
+      const id = queue.shift()!
+      for (const dependentId of this.dependents.get(id) || []) {
+        const entity = this.jsonSchemas.get(dependentId) || this.jsonObjs.get(dependentId)
+        if (!entity || affected.has(dependentId)) continue
+        affected.set(dependentId, entity)
+        if (entity instanceof JsonSchema && !seen.has(dependentId)) {
+          seen.add(dependentId)
+          queue.push(dependentId)
+        }
+      }
+    }
+    return Array.from(affected.values())
+  }
+
+  /**
+   * Validate entities, schemas first so that objects see up-to-date schema results.
+   */
+  private async validateEntityList(entities: JsonEntity[]): Promise<void> {
+    for (const entity of entities) {
+      if (entity instanceof JsonSchema) await this.validateEntity(entity)
+    }
+    for (const entity of entities) {
+      if (!(entity instanceof JsonSchema)) await this.validateEntity(entity)
+    }
+  }
+
   /**
    * Validate a single entity against its schema.
+   *
+   * @param trackAbsent - Record GTS references that are not in the registry as absent entities
    */
-  async validateEntity(entity: JsonEntity): Promise<void> {
+  async validateEntity(entity: JsonEntity, trackAbsent: boolean = true): Promise<void> {
     // Initialize validation result
     entity.validation = { errors: [] }
+    entity.resolvedSchemaId = undefined
 
     // Check if all GTS references exist in the registry
     if (entity.gtsRefs && entity.gtsRefs.length > 0) {
       for (const ref of entity.gtsRefs) {
-        const refExists = this.jsonSchemas.has(ref.id) || this.jsonObjs.has(ref.id)
+        const refExists = this.jsonSchemas.has(ref.id) || this.jsonObjs.has(ref.id) || this.resolveReferencedSchema(ref.id) !== undefined
         if (!refExists) {
-          this.absentGtsEntities.set(ref.id, createAbsentEntity(ref.id))
-          // Convert sourcePath from dot notation to slash notation for instancePath
-          // e.g., "contact.gtsIid" -> "/contact/gtsIid", "gtsIid" -> "/gtsIid"
-          const instancePath = ref.sourcePath === 'root'
-            ? '/'
-            : '/' + ref.sourcePath.replace(/\./g, '/').replace(/\[(\d+)\]/g, '/$1')
+          if (trackAbsent) this.absentGtsEntities.set(ref.id, createAbsentEntity(ref.id))
           entity.validation.errors.push({
-            instancePath,
+            instancePath: sourcePathToPointer(ref.sourcePath),
             schemaPath: '#',
             keyword: '',
             message: `GTS reference not found: ${ref.id}`,
@@ -156,9 +342,18 @@ export class JsonRegistry {
       }
     }
 
+    // A chained schema ID declares inheritance; the schema must actually extend its base
+    if (entity instanceof JsonSchema) {
+      const inheritanceError = this.checkBaseInclusion(entity)
+      if (inheritanceError) {
+        entity.validation.errors.push(inheritanceError)
+      }
+    }
+
+    entity.validation.errors.push(...this.lintEngine.lint(entity))
+
     // In VS Code webview environment, skip Ajv validation to comply with CSP
-    const g: any = (typeof globalThis !== 'undefined') ? (globalThis as any) : {}
-    if (g && (g.acquireVsCodeApi || (g.__GTS_APP_API__ && (g.__GTS_APP_API__.type === 'vscode' || g.__GTS_APP_API__.disableValidation === true)))) {
+    if (this.isAjvDisabled()) {
       return
     }
 
@@ -199,7 +394,7 @@ export class JsonRegistry {
         return
       }
 
-      const schema = this.resolveSchema(entity.schemaId)
+      const schema = this.resolveReferencedSchema(entity.schemaId)
       if (!schema) {
         // Prefer pointing to the field that produced schemaId
         const idField = (entity as any).selectedSchemaIdField || (entity as any).selectedEntityIdField || 'id'
@@ -213,6 +408,9 @@ export class JsonRegistry {
         })
         return
       }
+      if (schema.id !== normalizeGtsId(entity.schemaId)) {
+        entity.resolvedSchemaId = schema.id
+      }
 
       try {
         const ajv = this.createAjvInstance()
@@ -239,6 +437,79 @@ export class JsonRegistry {
     }
   }
 
+  /**
+   * Validate content that is not part of the registry, e.g. an event payload before it is published.
+   * Its entity and schema IDs are read like those of any JsonObj (or JsonSchema, for content with
+   * $schema), and it goes through the same checks as validateEntity. The registry is left unchanged.
+   *
+   * @param content - The payload
+   * @param cfg - GTS configuration for ID extraction; the workspace config applies over it
+   */
+  async validatePayload(content: any, cfg?: GtsConfig): Promise<PayloadValidationResult> {
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+      return {
+        isSchema: false,
+        valid: false,
+        errors: [{ instancePath: '', schemaPath: '#', keyword: 'type', message: 'Payload must be a JSON object', params: { type: 'object' } }]
+      }
+    }
+
+    const resolvedCfg = this.resolveGtsConfig(cfg)
+    const entity = createEntity({ content, cfg: resolvedCfg })!
+    // The payload's own ID is not a reference, even though the registry does not hold it
+    entity.gtsRefs = entity.gtsRefs?.filter(ref => ref.id !== entity.id)
+    await this.validateEntity(entity, false)
+    const errors = entity.validation?.errors ?? []
+    if (entity instanceof JsonObj && !entity.schemaId) {
+      errors.unshift({
+        instancePath: '',
+        schemaPath: '#',
+        keyword: 'schema',
+        message: `No schema ID found in any of: ${resolvedCfg.schema_id_fields.join(', ')}`,
+        params: { fields: resolvedCfg.schema_id_fields }
+      })
+    }
+    return {
+      id: entity.id || undefined,
+      schemaId: entity.schemaId,
+      resolvedSchemaId: entity.resolvedSchemaId,
+      isSchema: entity.isSchema,
+      valid: !errors.some(e => e.severity !== 'warning'),
+      errors
+    }
+  }
+
+  /**
+   * Generate an example instance of a schema (see generateExampleInstance) and validate it
+   * against the schema with the same Ajv setup as entity validation.
+   *
+   * @returns The example with its validation result, or undefined if the schema is not in the registry
+   */
+  async generateExample(schemaId: string, options: ExampleOptions = {}): Promise<GeneratedExample | undefined> {
+    const schema = this.resolveSchema(schemaId)
+    if (!schema) return undefined
+    const instance = generateExampleInstance(this, schema.id, options)
+    const example: GeneratedExample = { schemaId: schema.id, instance }
+    if (this.isAjvDisabled()) return example
+
+    example.validation = { errors: [] }
+    try {
+      const validate = await this.createAjvInstance().compileAsync(schema.content)
+      if (!validate(instance) && validate.errors) {
+        example.validation.errors.push(...this.formatValidationErrors(validate.errors))
+      }
+    } catch (error: any) {
+      example.validation.errors.push({
+        instancePath: '',
+        schemaPath: '#',
+        keyword: 'validation',
+        message: `Validation error: ${error.message}`,
+        params: { error: error.message }
+      })
+    }
+    return example
+  }
+
   /**
    * Validate all entities in the registry.
    * First validates all schemas, then validates all objects against their schemas.
@@ -253,6 +524,8 @@ export class JsonRegistry {
     for (const obj of this.jsonObjs.values()) {
       await this.validateEntity(obj)
     }
+
+    this.reportCycles()
   }
 
   /**
@@ -310,6 +583,14 @@ export class JsonRegistry {
     })
   }
 
+  /**
+   * Ajv compiles validators with new Function, which the VS Code webview CSP forbids
+   */
+  private isAjvDisabled(): boolean {
+    const g: any = (typeof globalThis !== 'undefined') ? (globalThis as any) : {}
+    return !!(g && (g.acquireVsCodeApi || (g.__GTS_APP_API__ && (g.__GTS_APP_API__.type === 'vscode' || g.__GTS_APP_API__.disableValidation === true))))
+  }
+
   /**
    * Create an Ajv instance with custom schema resolver.
    * This resolver handles GTS ID references and supports all JSON Schema features.
@@ -338,11 +619,15 @@ export class JsonRegistry {
         }
 
         // This is called by Ajv when it encounters a $ref it can't resolve
-        const schema = registry.resolveSchema(schemaId)
+        const schema = registry.resolveReferencedSchema(schemaId)
         if (!schema) {
           // Show human-readable error message with decoded URI
           throw new Error(`Schema not found for $ref: ${schemaId}`)
         }
+        // A major-only $ref resolved to a concrete minor version must be registered under the requested URI
+        if (schema.id !== schemaId) {
+          return { ...schema.content, $id: uri }
+        }
         return schema.content
       }
     })
@@ -366,10 +651,262 @@ export class JsonRegistry {
    * Normalizes the ID to strip gts:// prefix (per GTS spec).
    */
   private resolveSchema(schemaId: string): JsonSchema | undefined {
+    const resolvedId = this.resolveSchemaId(schemaId)
+    return resolvedId !== undefined ? this.jsonSchemas.get(resolvedId) : undefined
+  }
+
+  /**
+   * Resolve a schema reference met while validating an entity, recording the version
+   * picked for a major-only reference in resolvedVersions.
+   */
+  private resolveReferencedSchema(schemaId: string): JsonSchema | undefined {
+    const normalizedId = normalizeGtsId(schemaId)
+    const resolvedId = this.resolveSchemaId(normalizedId)
+    if (resolvedId === undefined) return undefined
+    if (resolvedId !== normalizedId) {
+      this.resolvedVersions.set(normalizedId, resolvedId)
+    }
+    return this.jsonSchemas.get(resolvedId)
+  }
+
+  /**
+   * Resolve a schema reference to the ID of a schema in the registry.
+   * Exact matches win; a major-only reference (e.g. "...order_placed.v1~") falls back to
+   * the highest available minor version.
+   */
+  resolveSchemaId(schemaId: string): string | undefined {
     // Normalize the schema ID by stripping gts:// prefix (per GTS spec)
     const normalizedId = normalizeGtsId(schemaId)
     // Attempt to find schema directly in the registry using the normalized ID
-    return this.jsonSchemas.get(normalizedId)
+    if (this.jsonSchemas.has(normalizedId)) return normalizedId
+
+    return resolveLatestMinorVersion(normalizedId, this.jsonSchemas.keys())
+  }
+
+  /**
+   * Get all minor versions of a schema's type (same ID up to the major version),
+   * sorted by ascending minor version.
+   */
+  getMinorVersions(schemaId: string): JsonSchema[] {
+    const gtsId = tryParseGtsId(schemaId)
+    if (!gtsId || !gtsId.isType) return []
+    const majorVersionId = gtsId.majorVersionId
+
+    const versions: JsonSchema[] = []
+    for (const schema of this.jsonSchemas.values()) {
+      const other = tryParseGtsId(schema.id)
+      if (other && other.isType && other.majorVersionId === majorVersionId) {
+        versions.push(schema)
+      }
+    }
+    return versions.sort((a, b) => minorVersionOf(a.id) - minorVersionOf(b.id))
+  }
+
+  /**
+   * Check whether a schema is backward compatible with the previous minor version of the same type.
+   * Returns undefined if the schema is not in the registry or has no previous minor version.
+   */
+  checkMinorVersionCompatibility(schemaId: string): CompatibilityReport | undefined {
+    const normalizedId = normalizeGtsId(schemaId)
+    const versions = this.getMinorVersions(normalizedId)
+    const index = versions.findIndex(s => s.id === normalizedId)
+    if (index <= 0) return undefined
+
+    const previous = versions[index - 1]
+    const current = versions[index]
+    return checkSchemaCompatibility(previous.content, current.content, previous.id, current.id)
+  }
+
+  /**
+   * Entities that directly reference an ID: instances of a schema, schemas that $ref it,
+   * and entities holding it as a GTS ID value. Major-only references that currently
+   * resolve to the ID are included.
+   */
+  getReferrers(id: string): JsonEntity[] {
+    const normalizedId = normalizeGtsId(id)
+    const keys = [normalizedId]
+    const gtsId = tryParseGtsId(normalizedId)
+    if (gtsId?.isType && gtsId.lastSegment.verMinor !== undefined && this.resolveSchemaId(gtsId.majorVersionId) === normalizedId) {
+      keys.push(gtsId.majorVersionId)
+    }
+
+    const referrers = new Map<string, JsonEntity>()
+    for (const key of keys) {
+      for (const dependentId of this.dependents.get(key) || []) {
+        const entity = this.jsonSchemas.get(dependentId) || this.jsonObjs.get(dependentId)
+        if (entity) referrers.set(dependentId, entity)
+      }
+    }
+    return Array.from(referrers.values())
+  }
+
+  /**
+   * Entities that reference an ID directly or through any chain of referrers (impact analysis).
+   */
+  getTransitiveReferrers(id: string): JsonEntity[] {
+    const startId = normalizeGtsId(id)
+    const found = new Map<string, JsonEntity>()
+    const queue = [startId]
+    while (queue.length > 0) {
+      for (const entity of this.getReferrers(queue.shift()!)) {
+        if (entity.id === startId || found.has(entity.id)) continue
+        found.set(entity.id, entity)
+        queue.push(entity.id)
+      }
+    }
+    return Array.from(found.values())
+  }
+
+  /**
+   * Instances of a type. With includeDerived, instances of types derived from it through
+   * the ID chain (e.g. "...type.v1~x.commerce.orders.order_placed.v1.0~") are included too.
+   */
+  getInstancesOf(typeId: string, includeDerived: boolean = true): JsonObj[] {
+    const normalizedId = normalizeGtsId(typeId)
+    const matches = (candidateId: string | undefined): boolean => {
+      if (!candidateId) return false
+      const id = normalizeGtsId(candidateId)
+      return includeDerived ? isSameOrDerivedType(id, normalizedId) : id === normalizedId
+    }
+
+    const instances: JsonObj[] = []
+    for (const obj of this.jsonObjs.values()) {
+      if (matches(obj.schemaId) || matches(obj.resolvedSchemaId) || matches(tryParseGtsId(obj.id)?.typeId)) {
+        instances.push(obj)
+      }
+    }
+    return instances
+  }
+
+  /**
+   * Inheritance chain of a schema from the root base type down to the schema itself,
+   * derived from its chained ID. Bases missing from the registry are skipped;
+   * major-only links resolve to the latest minor version.
+   */
+  getInheritanceChain(schemaId: string): JsonSchema[] {
+    const gtsId = tryParseGtsId(normalizeGtsId(schemaId))
+    if (!gtsId || !gtsId.isType) return []
+
+    const chain: JsonSchema[] = []
+    for (const typeId of gtsId.typeChain) {
+      const schema = this.resolveSchema(typeId)
+      if (schema) chain.push(schema)
+    }
+    return chain
+  }
+
+  /**
+   * Effective schema of a type: its allOf branches and inherited bases flattened
+   * into one schema listing every property. Undefined if the schema is not in the registry.
+   */
+  getEffectiveSchema(schemaId: string): any | undefined {
+    const schema = this.resolveSchema(schemaId)
+    if (!schema) return undefined
+    return flattenSchema(schema.content, (ref: string) => {
+      const target = this.resolveSchema(decodeGtsId(ref))
+      return target ? { id: target.id, content: target.content } : undefined
+    }, { id: schema.id })
+  }
+
+  /**
+   * Schema with every GTS schema it references inlined under $defs, so it can be compiled
+   * without access to the registry. Undefined if the schema is not in the registry.
+   */
+  getBundledSchema(schemaId: string): any | undefined {
+    const schema = this.resolveSchema(schemaId)
+    if (!schema) return undefined
+    return bundleSchema(schema.id, schema.content, (ref: string) => {
+      const target = this.resolveSchema(decodeGtsId(ref))
+      return target ? { id: target.id, content: target.content } : undefined
+    })
+  }
+
+  /**
+   * Find reference cycles: schemas that reach themselves through $ref, and instances
+   * that reach themselves through GTS ID references to other instances.
+   */
+  findCycles(): ReferenceCycle[] {
+    const schemaEdges: ReferenceEdge[] = []
+    for (const schema of this.jsonSchemas.values()) {
+      for (const ref of schema.schemaRefs) {
+        // Local refs ('#/definitions/...') stay within the schema
+        const refId = decodeGtsId(ref.id).split('#')[0]
+        if (!refId) continue
+        const targetId = this.resolveSchemaId(refId)
+        if (targetId) schemaEdges.push({ from: schema.id, to: targetId, sourcePath: ref.sourcePath })
+      }
+    }
+
+    const instanceEdges: ReferenceEdge[] = []
+    for (const obj of this.jsonObjs.values()) {
+      for (const ref of obj.gtsRefs || []) {
+        const targetId = normalizeGtsId(ref.id)
+        if (targetId !== obj.id && this.jsonObjs.has(targetId)) {
+          instanceEdges.push({ from: obj.id, to: targetId, sourcePath: ref.sourcePath })
+        }
+      }
+    }
+
+    return [
+      ...findReferenceCycles(schemaEdges, 'schema'),
+      ...findReferenceCycles(instanceEdges, 'instance')
+    ]
+  }
+
+  /**
+   * Recompute cycles and report them on every member entity according to the cycle policy,
+   * replacing what the previous pass reported.
+   */
+  private reportCycles(): void {
+    for (const entity of [...this.jsonSchemas.values(), ...this.jsonObjs.values()]) {
+      if (entity.validation) {
+        entity.validation.errors = entity.validation.errors.filter(e => e.keyword !== 'cycle')
+      }
+    }
+
+    this.cycles = this.findCycles()
+    if (this.cyclePolicy === 'allow') return
+
+    for (const cycle of this.cycles) {
+      for (const edge of cycle.edges) {
+        const entity = cycle.kind === 'schema' ? this.jsonSchemas.get(edge.from) : this.jsonObjs.get(edge.from)
+        entity?.validation?.errors.push({
+          instancePath: sourcePathToPointer(edge.sourcePath),
+          schemaPath: '#',
+          keyword: 'cycle',
+          message: `Reference cycle: ${cycle.toString()}`,
+          params: { kind: cycle.kind, path: cycle.path },
+          severity: this.cyclePolicy
+        })
+      }
+    }
+  }
+
+  /**
+   * Verify that a chained schema includes its base type through an allOf $ref.
+   * Returns the error to report, or undefined if the schema has no base or includes it.
+   */
+  private checkBaseInclusion(schema: JsonSchema): ValidationError | undefined {
+    const parentId = tryParseGtsId(schema.id)?.parentTypeId
+    if (!parentId) return undefined
+
+    const allOf: any[] = Array.isArray(schema.content?.allOf) ? schema.content.allOf : []
+    const resolvedParentId = this.resolveSchemaId(parentId)
+    const included = allOf.some((branch: any) => {
+      if (!branch || typeof branch.$ref !== 'string') return false
+      const refId = decodeGtsId(branch.$ref)
+      return isSameOrDerivedType(refId, parentId) ||
+        (resolvedParentId !== undefined && this.resolveSchemaId(refId) === resolvedParentId)
+    })
+    if (included) return undefined
+
+    return {
+      instancePath: allOf.length > 0 ? '/allOf' : '/',
+      schemaPath: '#',
+      keyword: 'inheritance',
+      message: `Derived schema must include its base type ${parentId} via allOf $ref`,
+      params: { parentId }
+    }
   }
 
   /**
@@ -406,12 +943,23 @@ export class JsonRegistry {
    * @param files - Array of {path, name, content} objects
    * @param cfg - GTS configuration for entity ID extraction
    */
-  async ingestFiles(files: Array<{ path: string; name: string; content: any }>, cfg: GtsConfig): Promise<void> {
-    cfg = getGtsConfig(cfg)
+  async ingestFiles(files: JsonFileInput[], cfg: GtsConfig): Promise<void> {
+    // The workspace config decides how every other file is read, so it goes first
+    const configFile = files.find(f => isWorkspaceConfigPath(f.path))
+    if (configFile) {
+      this.recordSettingsFile(configFile)
+      this.setWorkspaceConfig(configFile)
+    }
+    cfg = this.resolveGtsConfig(cfg)
+    this.cyclePolicy = cfg.cycle_policy ?? DEFAULT_CYCLE_POLICY
     for (const file of files) {
       try {
-        // Skip files in the .gts-viewer directory (cross-platform, browser-safe)
-        if (/(^|[\\\/])\.gts-viewer[\\\/]/.test(file.path)) {
+        if (isViewerStatePath(file.path) || isWorkspaceConfigPath(file.path) || this.isIgnoredPath(file.path)) {
+          continue
+        }
+        if (isLintConfigPath(file.path)) {
+          this.recordSettingsFile(file)
+          this.setLintFile(file)
           continue
         }
         this.processFileContent(file.path, file.name, file.content, cfg)
@@ -421,6 +969,184 @@ export class JsonRegistry {
     }
     await this.validateEntities()
   }
+
+  /**
+   * Add or replace a single file and re-validate only the entities affected by the change:
+   * the file's own entities plus everything whose schema closure or references include them.
+   * Unchanged content is a no-op. A change to the workspace lint file or workspace config
+   * re-validates everything; new ID fields and ignore globs apply from the next ingestFiles.
+   *
+   * @param file - The file as {path, name, content}
+   * @param cfg - GTS configuration for entity ID extraction
+   * @returns Whether the content changed, and the entities that were re-validated
+   */
+  async updateFile(file: JsonFileInput, cfg: GtsConfig): Promise<FileUpdateResult> {
+    if (isViewerStatePath(file.path) || this.isIgnoredPath(file.path)) return { changed: false, revalidated: [] }
+    if (isWorkspaceConfigPath(file.path)) {
+      if (!this.recordSettingsFile(file)) return { changed: false, revalidated: [] }
+      this.setWorkspaceConfig(file)
+      this.cyclePolicy = this.resolveGtsConfig(cfg).cycle_policy ?? DEFAULT_CYCLE_POLICY
+      return { changed: true, revalidated: await this.revalidateAll() }
+    }
+    if (isLintConfigPath(file.path)) {
+      if (!this.recordSettingsFile(file)) return { changed: false, revalidated: [] }
+      this.setLintFile(file)
+      return { changed: true, revalidated: await this.revalidateAll() }
+    }
+    const existing = this.jsonFiles.get(file.path) || this.invalidFiles.get(file.path)
+    if (existing && JSON.stringify(existing.content) === JSON.stringify(file.content)) return { changed: false, revalidated: [] }
+
+    cfg = this.resolveGtsConfig(cfg)
+    this.cyclePolicy = cfg.cycle_policy ?? DEFAULT_CYCLE_POLICY
+    const changedIds = this.fileEntityIds(file.path)
+    try {
+      this.processFileContent(file.path, file.name, file.content, cfg)
+    } catch (error) {
+      console.error(`Failed to process file ${file.path}:`, error)
+    }
+    const added = [...(this.jsonFileSchemas.get(file.path) || []), ...(this.jsonFileObjs.get(file.path) || [])]
+    for (const entity of added) {
+      changedIds.add(entity.id)
+      this.absentGtsEntities.delete(entity.id)
+    }
+
+    const affected = new Map<string, JsonEntity>()
+    for (const entity of added) affected.set(entity.id, entity)
+    for (const entity of this.collectAffectedEntities(changedIds)) affected.set(entity.id, entity)
+
+    const entities = Array.from(affected.values())
+    await this.validateEntityList(entities)
+    this.reportCycles()
+    return { changed: true, revalidated: entities }
+  }
+
+  /**
+   * Remove a single file and re-validate the entities that depended on its contents.
+   * Removing a file the registry does not have is a no-op.
+   *
+   * @param path - Path of the removed file
+   * @returns Whether the registry had the file, and the entities that were re-validated
+   */
+  async removeFile(path: string): Promise<FileUpdateResult> {
+    if (isLintConfigPath(path)) {
+      if (!this.settingsFiles.delete(path)) return { changed: false, revalidated: [] }
+      this.lintFileConfig = {}
+      this.invalidFiles.delete(path)
+      this.applyLintConfig()
+      return { changed: true, revalidated: await this.revalidateAll() }
+    }
+    if (isWorkspaceConfigPath(path)) {
+      if (!this.settingsFiles.delete(path)) return { changed: false, revalidated: [] }
+      this.workspaceConfig = null
+      this.workspaceRoot = ''
+      this.invalidFiles.delete(path)
+      this.applyLintConfig()
+      return { changed: true, revalidated: await this.revalidateAll() }
+    }
+    const known = this.jsonFiles.has(path) || this.invalidFiles.has(path) ||
+      this.jsonFileObjs.has(path) || this.jsonFileSchemas.has(path)
+    if (!known) return { changed: false, revalidated: [] }
+
+    const changedIds = this.fileEntityIds(path)
+    this.invalidateFile(path)
+    this.jsonFileObjs.delete(path)
+    this.jsonFileSchemas.delete(path)
+    if (this.defaultFilePath === path) this.defaultFilePath = null
+
+    const entities = this.collectAffectedEntities(changedIds)
+    await this.validateEntityList(entities)
+    this.reportCycles()
+    return { changed: true, revalidated: entities }
+  }
+
+  /**
+   * Settings of the last ingested workspace config file, or null if there is none
+   */
+  getWorkspaceConfig(): WorkspaceConfig | null {
+    return this.workspaceConfig
+  }
+
+  /**
+   * GTS configuration with the workspace config's ID fields and cycle policy applied over cfg
+   */
+  resolveGtsConfig(cfg?: GtsConfig): GtsConfig {
+    return applyWorkspaceGtsConfig(cfg, this.workspaceConfig)
+  }
+
+  /**
+   * Read a workspace config file. Schema violations are reported on the file, which is listed
+   * among the invalid files; the settings that are valid still apply.
+   */
+  private setWorkspaceConfig(file: JsonFileInput): void {
+    const jsonFile = new JsonFile(file.path, file.name, file.content)
+    if (jsonFile.validation!.errors.length === 0 && !this.isAjvDisabled()) {
+      jsonFile.validation!.errors.push(...validateWorkspaceConfig(jsonFile.content))
+    }
+    if (jsonFile.validation!.errors.length > 0) {
+      this.invalidFiles.set(file.path, jsonFile)
+    } else {
+      this.invalidFiles.delete(file.path)
+    }
+    this.workspaceConfig = parseWorkspaceConfig(jsonFile.content)
+    this.workspaceRoot = workspaceRootOf(file.path)
+    this.applyLintConfig()
+  }
+
+  /**
+   * Apply the workspace lint file; its problems make it an invalid file, while its valid rule settings still apply
+   */
+  private setLintFile(file: JsonFileInput): void {
+    const jsonFile = new JsonFile(file.path, file.name, file.content)
+    if (jsonFile.validation!.errors.length === 0) {
+      jsonFile.validation!.errors.push(...validateLintConfig(jsonFile.content))
+    }
+    if (jsonFile.validation!.errors.length > 0) {
+      this.invalidFiles.set(file.path, jsonFile)
+    } else {
+      this.invalidFiles.delete(file.path)
+    }
+    this.lintFileConfig = parseLintConfig(jsonFile.content)
+    this.applyLintConfig()
+  }
+
+  /**
+   * Remember the content of a settings file (lint file, workspace config); false if it is unchanged
+   */
+  private recordSettingsFile(file: JsonFileInput): boolean {
+    const content = JSON.stringify(file.content)
+    if (this.settingsFiles.get(file.path) === content) return false
+    this.settingsFiles.set(file.path, content)
+    return true
+  }
+
+  private applyLintConfig(): void {
+    const rules = { ...this.workspaceConfig?.lint?.rules, ...this.lintFileConfig.rules }
+    this.lintEngine.setConfig({ rules })
+  }
+
+  /**
+   * True if the workspace config's ignore globs match a path inside the workspace
+   */
+  private isIgnoredPath(filePath: string): boolean {
+    const ignore = this.workspaceConfig?.ignore
+    if (!ignore || ignore.length === 0) return false
+    const file = filePath.split('\\').join('/')
+    const root = this.workspaceRoot.split('\\').join('/')
+    if (!root) return isIgnoredPath(file, ignore)
+    return file.startsWith(`${root}/`) && isIgnoredPath(file.substring(root.length + 1), ignore)
+  }
+
+  private async revalidateAll(): Promise<JsonEntity[]> {
+    await this.validateEntities()
+    return [...this.jsonSchemas.values(), ...this.jsonObjs.values()]
+  }
+
+  private fileEntityIds(path: string): Set<string> {
+    const ids = new Set<string>()
+    for (const schema of this.jsonFileSchemas.get(path) || []) ids.add(schema.id)
+    for (const obj of this.jsonFileObjs.get(path) || []) ids.add(obj.id)
+    return ids
+  }
 }
 
 export function isGtsCandidateFileName(fileName: string): boolean {
@@ -0,0 +1,266 @@
+import type { JsonRegistry } from './registry.js'
+import type { JsonEntity, ValidationError } from './entities.js'
+import { createSourceMap } from './source-map.js'
+import { lintKeyword } from './lint.js'
+
+export type ProblemSeverity = 'error' | 'warning'
+
+/**
+ * A validation error attributed to a file and, where the source text is known, a position in it
+ */
+export interface ValidationProblem {
+  /** File path, relative to ReportOptions.rootPath when given, with forward slashes */
+  file: string
+  /** 1-based line and column; absent when the source text is not available or the problem cannot be located */
+  line?: number
+  column?: number
+  endLine?: number
+  endColumn?: number
+  severity: ProblemSeverity
+  keyword: string
+  /** Rule that reported the problem: the lint rule (e.g. 'lint/schema-description'), else the keyword */
+  ruleId: string
+  message: string
+  instancePath: string
+  entityId?: string
+}
+
+/**
+ * An entity covered by the report, whether or not it has problems
+ */
+export interface ReportedEntity {
+  id: string
+  file: string
+  isSchema: boolean
+}
+
+/**
+ * Validation results of a registry, flattened for serialization
+ */
+export interface ValidationReport {
+  entities: ReportedEntity[]
+  /** Files that could not be parsed or hold no valid entity */
+  invalidFiles: string[]
+  errors: number
+  warnings: number
+  problems: ValidationProblem[]
+}
+
+export interface ReportOptions {
+  /** Source text of a file, used to resolve line and column of each problem */
+  readText?: (path: string) => string | undefined
+  /** Folder that reported file paths are made relative to */
+  rootPath?: string
+  /** Also report breaking changes against the previous minor version of each schema (default: true) */
+  includeCompatibility?: boolean
+}
+
+export interface ReportToolInfo {
+  name?: string
+  version?: string
+  /** URI of the folder file paths are relative to; SARIF artifact locations use it as SRCROOT */
+  rootUri?: string
+}
+
+const DEFAULT_TOOL_NAME = 'gts'
+const TOOL_INFORMATION_URI = 'https://github.com/globaltypesystem/gts-spec'
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+const SARIF_ROOT = 'SRCROOT'
+// Keyword of problems the registry reports without one: GTS references that cannot be resolved
+const REFERENCE_KEYWORD = 'gts-reference'
+
+function ruleIdOf(error: ValidationError): string {
+  return typeof error.params?.rule === 'string' ? lintKeyword(error.params.rule) : error.keyword || REFERENCE_KEYWORD
+}
+
+function toReportPath(filePath: string, rootPath?: string): string {
+  const file = filePath.split('\\').join('/')
+  if (!rootPath) return file
+  const root = rootPath.split('\\').join('/').replace(/\/+$/, '')
+  return file.startsWith(`${root}/`) ? file.substring(root.length + 1) : file
+}
+
+/**
+ * Collect the validation errors of every entity and invalid file in a validated registry,
+ * sorted by file and position. Problems are located via source maps of the texts from readText.
+ *
+ * @example
+ * const report = buildValidationReport(registry, { readText: p => texts.get(p), rootPath: folder })
+ * writeFileSync('gts.sarif', toSarif(report, { version: '1.0.0' }))
+ */
+export function buildValidationReport(registry: JsonRegistry, options: ReportOptions = {}): ValidationReport {
+  const includeCompatibility = options.includeCompatibility ?? true
+  const problems: ValidationProblem[] = []
+
+  const add = (filePath: string, errors: ValidationError[], entity?: JsonEntity) => {
+    if (errors.length === 0) return
+    const text = options.readText?.(filePath)
+    const sourceMap = text !== undefined ? createSourceMap(text, filePath) : undefined
+    const basePointer = entity?.listSequence !== undefined ? `/${entity.listSequence}` : ''
+    for (const error of errors) {
+      const problem: ValidationProblem = {
+        file: toReportPath(filePath, options.rootPath),
+        severity: error.severity === 'warning' ? 'warning' : 'error',
+        keyword: error.keyword || REFERENCE_KEYWORD,
+        ruleId: ruleIdOf(error),
+        message: error.message,
+        instancePath: error.instancePath,
+        entityId: entity?.id
+      }
+      // Problems that cannot be located keep no position, rather than one at the top of the file
+      const range = sourceMap?.locateError(error, basePointer)
+      if (sourceMap && range) {
+        const start = sourceMap.positionAt(range.start)
+        const end = sourceMap.positionAt(range.end)
+        problem.line = start.line + 1
+        problem.column = start.character + 1
+        problem.endLine = end.line + 1
+        problem.endColumn = end.character + 1
+      }
+      problems.push(problem)
+    }
+  }
+
+  const invalidFiles: string[] = []
+  for (const file of registry.invalidFiles.values()) {
+    invalidFiles.push(toReportPath(file.path, options.rootPath))
+    add(file.path, file.validation?.errors ?? [])
+  }
+
+  const entities: ReportedEntity[] = []
+  for (const entity of [...registry.jsonSchemas.values(), ...registry.jsonObjs.values()]) {
+    if (!entity.file) continue
+    entities.push({ id: entity.id, file: toReportPath(entity.file.path, options.rootPath), isSchema: entity.isSchema })
+    add(entity.file.path, entity.validation?.errors ?? [], entity)
+    if (entity.isSchema && includeCompatibility) {
+      const report = registry.checkMinorVersionCompatibility(entity.id)
+      if (report && !report.compatible) add(entity.file.path, report.toValidationErrors(), entity)
+    }
+  }
+
+  problems.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0))
+  const errors = problems.filter(p => p.severity === 'error').length
+  return { entities, invalidFiles, errors, warnings: problems.length - errors, problems }
+}
+
+/**
+ * SARIF 2.1.0 log with one rule per lint rule or validation keyword
+ */
+export function toSarif(report: ValidationReport, tool: ReportToolInfo = {}): string {
+  const ruleIds = Array.from(new Set(report.problems.map(p => p.ruleId))).sort()
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: tool.name ?? DEFAULT_TOOL_NAME,
+          ...(tool.version ? { version: tool.version } : {}),
+          informationUri: TOOL_INFORMATION_URI,
+          rules: ruleIds.map(id => ({ id, shortDescription: { text: `GTS validation: ${id}` } }))
+        }
+      },
+      ...(tool.rootUri ? { originalUriBaseIds: { [SARIF_ROOT]: { uri: tool.rootUri.endsWith('/') ? tool.rootUri : `${tool.rootUri}/` } } } : {}),
+      results: report.problems.map(p => ({
+        ruleId: p.ruleId,
+        ruleIndex: ruleIds.indexOf(p.ruleId),
+        level: p.severity,
+        message: { text: p.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: encodeURI(p.file), ...(tool.rootUri ? { uriBaseId: SARIF_ROOT } : {}) },
+            ...(p.line !== undefined
+              ? { region: { startLine: p.line, startColumn: p.column, endLine: p.endLine, endColumn: p.endColumn } }
+              : {})
+          },
+          ...(p.entityId ? { logicalLocations: [{ fullyQualifiedName: p.entityId, kind: 'object' }] } : {})
+        }],
+        ...(p.instancePath ? { properties: { instancePath: p.instancePath } } : {})
+      }))
+    }]
+  }
+  return JSON.stringify(log, null, 2) + '\n'
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+function problemLine(p: ValidationProblem): string {
+  const position = p.line !== undefined ? `${p.file}:${p.line}:${p.column}` : p.file
+  return `${position} ${p.instancePath || '/'} ${p.message} (${p.ruleId})`
+}
+
+/**
+ * JUnit XML with one test suite per file and one test case per entity; an invalid file is a test case
+ * of its own. An entity with problems gets one test case per rule instead, named "<entity> (<rule ID>)".
+ * Errors become failures, warnings are listed in the test case's system-out.
+ */
+export function toJUnit(report: ValidationReport, tool: ReportToolInfo = {}): string {
+  const suites = new Map<string, Map<string, ValidationProblem[]>>()
+  const testCase = (file: string, name: string) => {
+    let suite = suites.get(file)
+    if (!suite) {
+      suite = new Map<string, ValidationProblem[]>()
+      suites.set(file, suite)
+    }
+    if (!suite.has(name)) suite.set(name, [])
+    return suite.get(name)!
+  }
+  const subjectsWithProblems = new Set(report.problems.map(p => `${p.file}\n${p.entityId ?? p.file}`))
+  for (const entity of report.entities) {
+    if (!subjectsWithProblems.has(`${entity.file}\n${entity.id}`)) testCase(entity.file, entity.id)
+  }
+  for (const file of report.invalidFiles) {
+    if (!subjectsWithProblems.has(`${file}\n${file}`)) testCase(file, file)
+  }
+  for (const problem of report.problems) {
+    testCase(problem.file, `${problem.entityId ?? problem.file} (${problem.ruleId})`).push(problem)
+  }
+
+  const lines: string[] = []
+  let tests = 0
+  let failures = 0
+  for (const file of Array.from(suites.keys()).sort()) {
+    const cases = suites.get(file)!
+    const failed = Array.from(cases.values()).filter(problems => problems.some(p => p.severity === 'error')).length
+    tests += cases.size
+    failures += failed
+    lines.push(`  <testsuite name="${escapeXml(file)}" tests="${cases.size}" failures="${failed}" errors="0" skipped="0">`)
+    for (const [name, problems] of cases) {
+      const errors = problems.filter(p => p.severity === 'error')
+      const warnings = problems.filter(p => p.severity === 'warning')
+      if (errors.length === 0 && warnings.length === 0) {
+        lines.push(`    <testcase name="${escapeXml(name)}" classname="${escapeXml(file)}"/>`)
+        continue
+      }
+      lines.push(`    <testcase name="${escapeXml(name)}" classname="${escapeXml(file)}">`)
+      if (errors.length > 0) {
+        const message = errors.length === 1 ? errors[0].message : `${errors.length} validation errors`
+        lines.push(`      <failure message="${escapeXml(message)}" type="${escapeXml(errors[0].ruleId)}">${escapeXml(errors.map(problemLine).join('\n'))}</failure>`)
+      }
+      if (warnings.length > 0) {
+        lines.push(`      <system-out>${escapeXml(warnings.map(p => `warning: ${problemLine(p)}`).join('\n'))}</system-out>`)
+      }
+      lines.push('    </testcase>')
+    }
+    lines.push('  </testsuite>')
+  }
+
+  const name = escapeXml(tool.name ?? DEFAULT_TOOL_NAME)
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${name}" tests="${tests}" failures="${failures}" errors="0">`,
+    ...lines,
+    '</testsuites>',
+    ''
+  ].join('\n')
+}
@@ -0,0 +1,9 @@
+// Keywords that identify a schema document rather than describe data; dropped when a schema is embedded in another
+export const DOCUMENT_KEYWORDS = ['$id', '$schema']
+
+/**
+ * True for a JSON object (not null and not an array)
+ */
+export function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
@@ -0,0 +1,162 @@
+import type { JsonRegistry } from './registry.js'
+import type { JsonEntity } from './entities.js'
+import { normalizeGtsId } from './entities.js'
+import { tryParseGtsId, isSameOrDerivedType } from './gts-id.js'
+
+export type EntityKind = 'schema' | 'instance'
+
+/** 'valid' entities have no validation errors; warnings do not count */
+export type EntityValidationStatus = 'valid' | 'invalid'
+
+/**
+ * Filters and page of an entity search; all filters are optional and combine with AND
+ */
+export interface EntityQuery {
+  kind?: EntityKind
+  /** Prefixes of the vendor, package and namespace of the entity's own (last) ID segment */
+  vendor?: string
+  package?: string
+  namespace?: string
+  /** Schemas that are or derive from this type, and instances of them */
+  typeId?: string
+  /** Include types derived from typeId through the ID chain (default: true) */
+  includeDerived?: boolean
+  status?: EntityValidationStatus
+  /** Case-insensitive text searched for in the ID, title and description */
+  text?: string
+  /** Cursor from a previous page's nextCursor */
+  cursor?: string
+  /** Page size (default: DEFAULT_SEARCH_LIMIT, at most MAX_SEARCH_LIMIT) */
+  limit?: number
+}
+
+/**
+ * Listing summary of an entity
+ */
+export interface EntitySearchItem {
+  id: string
+  isSchema: boolean
+  schemaId?: string
+  title?: string
+  description?: string
+  status: EntityValidationStatus
+  errors: number
+  warnings: number
+  file: {
+    path?: string
+    name?: string
+  }
+}
+
+export interface EntitySearchResult {
+  items: EntitySearchItem[]
+  /** Number of entities matching the filters, across all pages */
+  total: number
+  /** Cursor of the next page, absent on the last page */
+  nextCursor?: string
+}
+
+export const DEFAULT_SEARCH_LIMIT = 50
+export const MAX_SEARCH_LIMIT = 500
+
+function entityCounts(entity: JsonEntity): { errors: number; warnings: number } {
+  const all = entity.validation?.errors ?? []
+  const warnings = all.filter(e => e.severity === 'warning').length
+  return { errors: all.length - warnings, warnings }
+}
+
+/**
+ * Listing summary of an entity, with its validation status
+ */
+export function toEntitySearchItem(entity: JsonEntity): EntitySearchItem {
+  const { errors, warnings } = entityCounts(entity)
+  const title = typeof entity.content?.title === 'string' ? entity.content.title : undefined
+  return {
+    id: entity.id,
+    isSchema: entity.isSchema,
+    schemaId: entity.schemaId,
+    title,
+    description: entity.description || undefined,
+    status: errors > 0 ? 'invalid' : 'valid',
+    errors,
+    warnings,
+    file: {
+      path: entity.file?.path,
+      name: entity.file?.name
+    }
+  }
+}
+
+/**
+ * Cursors are opaque to clients; they hold the last ID of the previous page,
+ * so paging stays stable while entities are added or removed
+ */
+function encodeCursor(id: string): string {
+  return encodeURIComponent(id)
+}
+
+function decodeCursor(cursor: string): string {
+  try {
+    return decodeURIComponent(cursor)
+  } catch {
+    return cursor
+  }
+}
+
+/**
+ * Find entities of a registry matching a query, ordered by ID, one page at a time.
+ *
+ * @example
+ * const page = searchEntities(registry, { kind: 'schema', vendor: 'x', text: 'order', limit: 20 })
+ * const next = page.nextCursor ? searchEntities(registry, { kind: 'schema', vendor: 'x', text: 'order', limit: 20, cursor: page.nextCursor }) : null
+ */
+export function searchEntities(registry: JsonRegistry, query: EntityQuery = {}): EntitySearchResult {
+  const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_SEARCH_LIMIT), 1), MAX_SEARCH_LIMIT)
+  const text = query.text?.trim().toLowerCase()
+  const typeId = query.typeId ? normalizeGtsId(query.typeId) : undefined
+  const includeDerived = query.includeDerived ?? true
+  const instancesOfType = typeId ? new Set(registry.getInstancesOf(typeId, includeDerived).map(o => o.id)) : undefined
+
+  const candidates: JsonEntity[] = []
+  if (query.kind !== 'instance') candidates.push(...registry.jsonSchemas.values())
+  if (query.kind !== 'schema') candidates.push(...registry.jsonObjs.values())
+
+  const matches = candidates.filter(entity => {
+    if (query.vendor || query.package || query.namespace) {
+      const segment = tryParseGtsId(entity.id)?.lastSegment
+      if (!segment) return false
+      if (query.vendor && !segment.vendor.startsWith(query.vendor)) return false
+      if (query.package && !segment.package.startsWith(query.package)) return false
+      if (query.namespace && !segment.namespace.startsWith(query.namespace)) return false
+    }
+    if (typeId) {
+      const isMatch = entity.isSchema
+        ? (includeDerived ? isSameOrDerivedType(entity.id, typeId) : entity.id === typeId)
+        : instancesOfType!.has(entity.id)
+      if (!isMatch) return false
+    }
+    if (query.status) {
+      const status = entityCounts(entity).errors > 0 ? 'invalid' : 'valid'
+      if (status !== query.status) return false
+    }
+    if (text) {
+      const haystack = [entity.id, entity.content?.title, entity.description]
+        .filter(v => typeof v === 'string')
+        .join('\n')
+        .toLowerCase()
+      if (!haystack.includes(text)) return false
+    }
+    return true
+  })
+  matches.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+
+  const after = query.cursor ? decodeCursor(query.cursor) : undefined
+  const start = after === undefined ? 0 : matches.findIndex(e => e.id > after)
+  const page = start < 0 ? [] : matches.slice(start, start + limit)
+  const hasMore = start >= 0 && start + limit < matches.length
+  return {
+    items: page.map(toEntitySearchItem),
+    total: matches.length,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1].id) : undefined
+  }
+}
@@ -0,0 +1,251 @@
+import * as jsonc from 'jsonc-parser'
+import { parseAllDocuments, isMap, isSeq, isPair, isNode, isScalar } from 'yaml'
+import type { Node as YamlNode } from 'yaml'
+import type { ValidationError } from './entities.js'
+import { isYamlFileName } from './yaml.js'
+import { escapePointerSegment, pointerSegments } from './json-pointer.js'
+
+/**
+ * Character range in the source text; end is exclusive
+ */
+export interface SourceRange {
+  start: number
+  end: number
+}
+
+/**
+ * Zero-based line and character of an offset
+ */
+export interface SourcePosition {
+  line: number
+  character: number
+}
+
+/**
+ * A scalar value as written in the source: its text without quotes, and the range of that text
+ */
+export interface SourceScalar {
+  text: string
+  range: SourceRange
+}
+
+export type SourceMapNodeKind = 'object' | 'array' | 'value'
+
+/**
+ * A value in the source text with its children, as located by the parser
+ */
+export class SourceMapNode {
+  kind: SourceMapNodeKind
+  /** Range of the value (including quotes and brackets) */
+  range: SourceRange
+  /** Range of the property key (including quotes) if the value is an object property */
+  keyRange?: SourceRange
+  /** Object properties; for duplicated keys the last one wins, as in the parsed value */
+  properties: Map<string, SourceMapNode>
+  /** Array items */
+  items: SourceMapNode[]
+
+  constructor(kind: SourceMapNodeKind, range: SourceRange, keyRange?: SourceRange) {
+    this.kind = kind
+    this.range = range
+    this.keyRange = keyRange
+    this.properties = new Map<string, SourceMapNode>()
+    this.items = []
+  }
+
+  /**
+   * Child at a JSON Pointer segment: a property name or an array index
+   */
+  child(segment: string): SourceMapNode | undefined {
+    if (this.kind === 'object') return this.properties.get(segment)
+    if (this.kind === 'array' && /^\d+$/.test(segment)) return this.items[Number(segment)]
+    return undefined
+  }
+}
+
+/**
+ * Zero-based line and character of an offset in a text
+ */
+export function positionAt(text: string, offset: number): SourcePosition {
+  const clamped = Math.max(0, Math.min(offset, text.length))
+  let line = 0
+  let lineStart = 0
+  for (let i = text.indexOf('\n'); i !== -1 && i < clamped; i = text.indexOf('\n', i + 1)) {
+    line++
+    lineStart = i + 1
+  }
+  return { line, character: clamped - lineStart }
+}
+
+/**
+ * Maps JSON Pointers (as used in ValidationError.instancePath) to ranges of the source text
+ * they came from, so errors can be shown at the exact key or value.
+ *
+ * @example
+ * const map = createSourceMap(text, 'events.yaml')
+ * const range = map.locateError(error, '/2') // error of the third entity in the file
+ */
+export class SourceMap {
+  readonly text: string
+  readonly root?: SourceMapNode
+
+  constructor(text: string, root?: SourceMapNode) {
+    this.text = text
+    this.root = root
+  }
+
+  /**
+   * Node at a JSON Pointer; with closest, the deepest node along the pointer that exists
+   */
+  nodeAt(pointer: string, closest = false): SourceMapNode | undefined {
+    let node = this.root
+    for (const segment of pointerSegments(pointer)) {
+      const next = node?.child(segment)
+      if (!next) return closest ? node : undefined
+      node = next
+    }
+    return node
+  }
+
+  /**
+   * Range of the value at a JSON Pointer
+   */
+  rangeAt(pointer: string): SourceRange | undefined {
+    return this.nodeAt(pointer)?.range
+  }
+
+  /**
+   * Range to highlight for a validation error: the offending key for additionalProperties,
+   * the object missing a property for required, otherwise the value at instancePath.
+   * Objects and arrays are reported at their key, or their opening bracket, rather than as a whole.
+   *
+   * @param error - Validation error with an entity-relative instancePath
+   * @param basePointer - Pointer of the entity within the file (e.g. '/2' for the third item of an array file)
+   */
+  locateError(error: ValidationError, basePointer = ''): SourceRange | undefined {
+    const pointer = `${basePointer}/${error.instancePath || ''}`
+    if (error.keyword === 'additionalProperties' && typeof error.params?.additionalProperty === 'string') {
+      const property = this.nodeAt(`${pointer}/${escapePointerSegment(error.params.additionalProperty)}`)
+      if (property?.keyRange) return property.keyRange
+    }
+
+    const node = this.nodeAt(pointer, true)
+    if (!node) return undefined
+    if (node.kind === 'value') return node.range
+    return node.keyRange ?? { start: node.range.start, end: node.range.start + 1 }
+  }
+
+  /**
+   * Every scalar value (not keys) of the text, e.g. to find where an ID is used in JSON and YAML alike.
+   * Quotes are stripped but escapes are kept, so the ranges stay exact.
+   */
+  scalars(): SourceScalar[] {
+    const scalars: SourceScalar[] = []
+    const visit = (node: SourceMapNode | undefined) => {
+      if (!node) return
+      if (node.kind === 'value') {
+        // A YAML key without a value is mapped at the key; it has no scalar of its own
+        if (node.keyRange && node.keyRange.start === node.range.start && node.keyRange.end === node.range.end) return
+        scalars.push(this.scalarAt(node.range))
+        return
+      }
+      for (const child of node.properties.values()) visit(child)
+      for (const item of node.items) visit(item)
+    }
+    visit(this.root)
+    return scalars
+  }
+
+  positionAt(offset: number): SourcePosition {
+    return positionAt(this.text, offset)
+  }
+
+  private scalarAt(range: SourceRange): SourceScalar {
+    const raw = this.text.slice(range.start, range.end)
+    const quote = raw[0]
+    if (raw.length >= 2 && (quote === '"' || quote === "'") && raw[raw.length - 1] === quote) {
+      return { text: raw.slice(1, -1), range: { start: range.start + 1, end: range.end - 1 } }
+    }
+    return { text: raw, range }
+  }
+}
+
+function fromJsoncNode(node: jsonc.Node, keyRange?: SourceRange): SourceMapNode {
+  const range = { start: node.offset, end: node.offset + node.length }
+  if (node.type === 'object') {
+    const result = new SourceMapNode('object', range, keyRange)
+    for (const property of node.children ?? []) {
+      const [key, value] = property.children ?? []
+      if (!key || !value || typeof key.value !== 'string') continue
+      result.properties.set(key.value, fromJsoncNode(value, { start: key.offset, end: key.offset + key.length }))
+    }
+    return result
+  }
+  if (node.type === 'array') {
+    const result = new SourceMapNode('array', range, keyRange)
+    result.items = (node.children ?? []).map(item => fromJsoncNode(item))
+    return result
+  }
+  return new SourceMapNode('value', range, keyRange)
+}
+
+function yamlRange(node: YamlNode): SourceRange {
+  const [start, valueEnd] = node.range ?? [0, 0]
+  return { start, end: valueEnd }
+}
+
+function fromYamlNode(node: unknown, keyRange?: SourceRange): SourceMapNode | undefined {
+  if (!isNode(node)) return undefined
+  if (isMap(node)) {
+    const result = new SourceMapNode('object', yamlRange(node), keyRange)
+    for (const pair of node.items) {
+      if (!isPair(pair) || !isScalar(pair.key)) continue
+      const keyNodeRange = yamlRange(pair.key)
+      // A key without a value ("key:") maps to null, located at the key
+      const value = fromYamlNode(pair.value, keyNodeRange) ?? new SourceMapNode('value', keyNodeRange, keyNodeRange)
+      if (value.range.start === value.range.end) value.range = keyNodeRange
+      result.properties.set(String(pair.key.value), value)
+    }
+    return result
+  }
+  if (isSeq(node)) {
+    const result = new SourceMapNode('array', yamlRange(node), keyRange)
+    for (const item of node.items) {
+      result.items.push(fromYamlNode(item) ?? new SourceMapNode('value', result.range))
+    }
+    return result
+  }
+  return new SourceMapNode('value', yamlRange(node), keyRange)
+}
+
+/**
+ * Source map of JSON / JSONC text. Parse errors are tolerated; whatever parses is mapped.
+ */
+export function createJsonSourceMap(text: string): SourceMap {
+  const root = jsonc.parseTree(text, [], { allowTrailingComma: true })
+  return new SourceMap(text, root ? fromJsoncNode(root) : undefined)
+}
+
+/**
+ * Source map of YAML text. A multi-document stream maps like an array of its documents,
+ * matching parseYAML, so '/1/name' is the "name" of the second document.
+ */
+export function createYamlSourceMap(text: string): SourceMap {
+  const documents = parseAllDocuments(text)
+  if (!Array.isArray(documents) || documents.length === 0) return new SourceMap(text)
+  if (documents.length === 1) return new SourceMap(text, fromYamlNode(documents[0].contents))
+
+  const stream = new SourceMapNode('array', { start: 0, end: text.length })
+  for (const document of documents) {
+    const [start, end] = document.range
+    stream.items.push(fromYamlNode(document.contents) ?? new SourceMapNode('value', { start, end }))
+  }
+  return new SourceMap(text, stream)
+}
+
+/**
+ * Source map of a file's text, picking the parser by file extension (JSON/JSONC unless .yaml/.yml)
+ */
+export function createSourceMap(text: string, fileName = ''): SourceMap {
+  return isYamlFileName(fileName) ? createYamlSourceMap(text) : createJsonSourceMap(text)
+}
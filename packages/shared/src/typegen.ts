@@ -0,0 +1,407 @@
+import type { JsonRegistry } from './registry.js'
+import type { JsonSchema } from './entities.js'
+import { decodeGtsId, normalizeGtsId } from './entities.js'
+import { tryParseGtsId } from './gts-id.js'
+import { mergeSchemas } from './inheritance.js'
+import { pointerSegments } from './json-pointer.js'
+import { isObject } from './schema-utils.js'
+
+/**
+ * A generated TypeScript module declaring the type of one GTS schema
+ */
+export interface TypeScriptModule {
+  /** GTS type ID the module is generated from (empty for the index module) */
+  typeId: string
+  /** Module file name, e.g. 'gts.x.core.events.type.v1.ts' */
+  fileName: string
+  /** Name of the exported type */
+  typeName: string
+  content: string
+}
+
+export interface TypeScriptGenerationOptions {
+  /** Also emit an index.ts re-exporting every type (default: true) */
+  index?: boolean
+  /** Extension used in relative import specifiers (default: '.js', as required by Node ESM resolution) */
+  importExtension?: string
+}
+
+export const TYPESCRIPT_INDEX_FILE = 'index.ts'
+
+const GENERATED_HEADER = '// Generated from GTS schemas. Do not edit: regenerate with `gts types` or "Export types" in the viewer.'
+
+// Keywords whose presence means an object type even without "type": "object"
+const OBJECT_KEYWORDS = ['properties', 'additionalProperties', 'required']
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/
+
+function pascalCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.substring(1))
+    .join('')
+}
+
+/**
+ * Candidate type names of a schema, from shortest to fully qualified:
+ * OrderPlacedV1_0, OrdersOrderPlacedV1_0, CommerceOrdersOrderPlacedV1_0, XCommerceOrdersOrderPlacedV1_0
+ */
+function typeNameCandidates(typeId: string): string[] {
+  const segment = tryParseGtsId(typeId)?.lastSegment
+  if (!segment) {
+    const name = pascalCase(typeId) || 'Schema'
+    return [/^\d/.test(name) ? `T${name}` : name]
+  }
+  const version = `V${segment.verMajor}${segment.verMinor !== undefined ? `_${segment.verMinor}` : ''}`
+  const namespace = segment.namespace === '_' ? '' : segment.namespace
+  return [
+    [segment.type],
+    [segment.package, segment.type],
+    [segment.package, namespace, segment.type],
+    [segment.vendor, segment.package, namespace, segment.type]
+  ].map(parts => `${pascalCase(parts.filter(Boolean).join('_'))}${version}`)
+}
+
+/**
+ * Unique type name per schema ID, using the shortest candidate no other schema shares
+ */
+function assignTypeNames(typeIds: string[]): Map<string, string> {
+  const candidates = new Map(typeIds.map(id => [id, typeNameCandidates(id)]))
+  const names = new Map<string, string>()
+  const used = new Set<string>()
+  for (const id of typeIds) {
+    const own = candidates.get(id)!
+    let name = own.find(candidate =>
+      !used.has(candidate) && typeIds.every(other => other === id || !candidates.get(other)!.includes(candidate))
+    ) ?? own[own.length - 1]
+    for (let n = 2; used.has(name); n++) name = `${own[own.length - 1]}_${n}`
+    names.set(id, name)
+    used.add(name)
+  }
+  return names
+}
+
+/**
+ * Module file name of a type ID: the ID without its trailing '~'
+ */
+export function typeModuleFileName(typeId: string): string {
+  return `${typeId.replace(/~$/, '')}.ts`
+}
+
+function docComment(lines: string[], indent: string): string[] {
+  const text = lines.flatMap(line => line.split('\n')).map(line => line.replace(/\*\//g, '*\\/'))
+  while (text.length > 0 && text[text.length - 1].trim() === '') text.pop()
+  if (text.length === 0) return []
+  if (text.length === 1) return [`${indent}/** ${text[0]} */`]
+  return [`${indent}/**`, ...text.map(line => `${indent} *${line ? ` ${line}` : ''}`), `${indent} */`]
+}
+
+/**
+ * Doc comment lines of a property or type: title, description and format
+ */
+function schemaDocs(schema: any): string[] {
+  if (!isObject(schema)) return []
+  const lines: string[] = []
+  if (typeof schema.title === 'string') lines.push(schema.title)
+  if (typeof schema.description === 'string') {
+    if (lines.length > 0) lines.push('')
+    lines.push(schema.description)
+  }
+  if (typeof schema.format === 'string') lines.push(`@format ${schema.format}`)
+  if (schema.deprecated === true) lines.push('@deprecated')
+  return lines
+}
+
+function literal(value: any): string | undefined {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) return JSON.stringify(value)
+  return undefined
+}
+
+function union(types: string[]): string {
+  const unique = Array.from(new Set(types))
+  if (unique.includes('unknown')) return 'unknown'
+  return unique.length === 0 ? 'never' : unique.join(' | ')
+}
+
+/**
+ * Wrap a union or intersection in parentheses where it is an operand (of [] or &)
+ */
+function operand(type: string): string {
+  let depth = 0
+  let quoted = false
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i]
+    if (quoted) {
+      if (char === '\\') i++
+      else if (char === '"') quoted = false
+    } else if (char === '"') {
+      quoted = true
+    } else if ('{[(<'.includes(char)) {
+      depth++
+    } else if ('}])>'.includes(char)) {
+      depth--
+    } else if (depth === 0 && (char === '|' || char === '&')) {
+      return `(${type})`
+    }
+  }
+  return type
+}
+
+/**
+ * Writes the module of one schema, collecting the imports its $refs need
+ */
+class TypeModuleWriter {
+  private imports = new Map<string, string>()
+  private inlining = new Set<any>()
+
+  constructor(
+    private readonly registry: JsonRegistry,
+    private readonly schema: JsonSchema,
+    private readonly typeNames: Map<string, string>,
+    private readonly importExtension: string
+  ) {}
+
+  write(): string {
+    const content = this.schema.content
+    const typeName = this.typeNames.get(this.schema.id)!
+    const { baseIds, body } = this.inheritance(content)
+    const bases = baseIds.map(id => this.referenceTypeName(id))
+
+    const docs = schemaDocs(content)
+    docs.push(...(docs.length > 0 ? [''] : []), `GTS type: \`${this.schema.id}\``)
+    const lines = docComment(docs, '')
+    // An interface can only extend interfaces: a union or alias base makes this an intersection type
+    if (this.declaresInterface(this.schema.id)) {
+      const extendsClause = bases.length > 0 ? ` extends ${bases.join(', ')}` : ''
+      lines.push(`export interface ${typeName}${extendsClause} ${this.objectType(body, '', true)}`)
+    } else {
+      const ownType = this.typeOf(body, '')
+      const type = [...bases, ...(ownType === 'unknown' && bases.length > 0 ? [] : [operand(ownType)])].join(' & ')
+      lines.push(`export type ${typeName} = ${type}`)
+    }
+
+    const importLines = Array.from(this.imports.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, fileName]) => `import type { ${name} } from './${fileName.replace(/\.ts$/, this.importExtension)}'`)
+    return [GENERATED_HEADER, ...(importLines.length > 0 ? ['', ...importLines] : []), '', ...lines, ''].join('\n')
+  }
+
+  /**
+   * GTS inheritance of a schema: the registry schemas its allOf branches reference as a whole
+   * (its bases) and the schema the rest of it merges into
+   */
+  private inheritance(content: any): { baseIds: string[]; body: any } {
+    const baseIds: string[] = []
+    const ownBranches: any[] = []
+    const { allOf, ...own } = isObject(content) ? content : ({} as any)
+    for (const branch of Array.isArray(allOf) ? allOf : []) {
+      const baseId = isObject(branch) && typeof branch.$ref === 'string' && Object.keys(branch).length === 1
+        ? this.refTargetId(branch.$ref)
+        : undefined
+      if (baseId !== undefined) baseIds.push(baseId)
+      else ownBranches.push(branch)
+    }
+    return { baseIds, body: ownBranches.length > 0 ? mergeSchemas([own, ...ownBranches]) : own }
+  }
+
+  /**
+   * Whether the module of a schema declares an interface (an object type whose bases are
+   * interfaces too) rather than a type alias, which an interface cannot always extend
+   */
+  private declaresInterface(schemaId: string, visiting = new Set<string>()): boolean {
+    if (visiting.has(schemaId)) return false
+    visiting.add(schemaId)
+    const { baseIds, body } = this.inheritance(this.registry.jsonSchemas.get(schemaId)?.content)
+    return this.isObjectSchema(body) && !hasCombinators(body) && baseIds.every(id => this.declaresInterface(id, visiting))
+  }
+
+  /**
+   * ID of the registry schema a $ref names as a whole; undefined for other refs
+   */
+  private refTargetId(ref: string): string | undefined {
+    const [refId, fragment] = decodeGtsId(ref).split('#')
+    if (!refId || fragment) return undefined
+    const targetId = this.registry.resolveSchemaId(normalizeGtsId(refId))
+    return targetId !== undefined && this.typeNames.has(targetId) ? targetId : undefined
+  }
+
+  /**
+   * Type name of a referenced registry schema, importing it
+   */
+  private referenceTypeName(targetId: string): string {
+    const name = this.typeNames.get(targetId)!
+    if (targetId !== this.schema.id) this.imports.set(name, typeModuleFileName(targetId))
+    return name
+  }
+
+  /**
+   * Type name of a $ref to another registry schema, importing it; undefined for other refs
+   */
+  private schemaTypeName(ref: string): string | undefined {
+    const targetId = this.refTargetId(ref)
+    return targetId !== undefined ? this.referenceTypeName(targetId) : undefined
+  }
+
+  /**
+   * Schema a JSON Pointer $ref (local, or into another schema) points to
+   */
+  private resolvePointer(ref: string): any {
+    const [refId, fragment = ''] = decodeGtsId(ref).split('#')
+    let target = this.schema.content
+    if (refId) {
+      const targetId = this.registry.resolveSchemaId(normalizeGtsId(refId))
+      target = targetId !== undefined ? this.registry.jsonSchemas.get(targetId)?.content : undefined
+    }
+    for (const segment of pointerSegments(fragment)) {
+      target = target?.[segment]
+    }
+    return target
+  }
+
+  private isObjectSchema(schema: any): boolean {
+    if (!isObject(schema)) return false
+    if (schema.type === 'object') return true
+    return schema.type === undefined && OBJECT_KEYWORDS.some(k => k in schema)
+  }
+
+  private typeOf(schema: any, indent: string): string {
+    if (schema === true || schema === undefined) return 'unknown'
+    if (schema === false) return 'never'
+    if (!isObject(schema)) return 'unknown'
+
+    if (typeof schema.$ref === 'string') {
+      const name = this.schemaTypeName(schema.$ref)
+      if (name) return name
+      const target = this.resolvePointer(schema.$ref)
+      if (target === undefined || this.inlining.has(target)) return 'unknown'
+      this.inlining.add(target)
+      const type = this.typeOf(target, indent)
+      this.inlining.delete(target)
+      return type
+    }
+
+    if (schema.const !== undefined) return literal(schema.const) ?? 'unknown'
+    if (Array.isArray(schema.enum)) {
+      const literals = schema.enum.map(literal)
+      return literals.every((l: string | undefined) => l !== undefined) ? union(literals) : 'unknown'
+    }
+
+    for (const keyword of ['oneOf', 'anyOf']) {
+      if (Array.isArray(schema[keyword])) {
+        const { [keyword]: branches, ...rest } = schema
+        const alternatives = union(branches.map((b: any) => this.typeOf(mergeSchemas([rest, b]), indent)))
+        return alternatives
+      }
+    }
+    if (Array.isArray(schema.allOf)) {
+      const { allOf, ...rest } = schema
+      const parts = [rest, ...allOf].map(part => this.typeOf(part, indent)).filter(t => t !== 'unknown')
+      return parts.length === 0 ? 'unknown' : Array.from(new Set(parts)).map(operand).join(' & ')
+    }
+
+    const types: string[] = Array.isArray(schema.type) ? schema.type : typeof schema.type === 'string' ? [schema.type] : []
+    if (types.length === 0) return this.isObjectSchema(schema) ? this.objectType(schema, indent) : 'unknown'
+    return union(types.map(type => this.primitiveType(type, schema, indent)))
+  }
+
+  private primitiveType(type: string, schema: any, indent: string): string {
+    switch (type) {
+      case 'string': return 'string'
+      case 'number':
+      case 'integer': return 'number'
+      case 'boolean': return 'boolean'
+      case 'null': return 'null'
+      case 'array': return this.arrayType(schema, indent)
+      case 'object': return this.objectType(schema, indent)
+      default: return 'unknown'
+    }
+  }
+
+  private arrayType(schema: any, indent: string): string {
+    const tuple = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : undefined
+    if (tuple) {
+      const items = tuple.map((item: any) => this.typeOf(item, indent))
+      const rest = schema.prefixItems ? schema.items : schema.additionalItems
+      return rest === false ? `[${items.join(', ')}]` : `[${[...items, `...${operand(this.typeOf(rest, indent))}[]`].join(', ')}]`
+    }
+    return `${operand(this.typeOf(schema.items, indent))}[]`
+  }
+
+  /**
+   * Object type literal; with interfaceBody, never a Record so it can follow `interface X`
+   */
+  private objectType(schema: any, indent: string, interfaceBody = false): string {
+    const properties = isObject(schema.properties) ? schema.properties : {}
+    const required: string[] = Array.isArray(schema.required) ? schema.required : []
+    const additional = schema.additionalProperties
+    const names = Object.keys(properties)
+
+    if (names.length === 0 && !interfaceBody) {
+      if (additional === false) return 'Record<string, never>'
+      return `Record<string, ${isObject(additional) ? this.typeOf(additional, indent) : 'unknown'}>`
+    }
+
+    const inner = `${indent}  `
+    const lines: string[] = ['{']
+    for (const name of names) {
+      const key = IDENTIFIER_REGEX.test(name) ? name : JSON.stringify(name)
+      const optional = required.includes(name) ? '' : '?'
+      lines.push(...docComment(schemaDocs(properties[name]), inner))
+      lines.push(`${inner}${key}${optional}: ${this.typeOf(properties[name], inner)}`)
+    }
+    // Property types need not match an additionalProperties schema, so extra properties are unknown
+    if (additional === true || isObject(additional)) lines.push(`${inner}[key: string]: unknown`)
+    lines.push(`${indent}}`)
+    return lines.length === 2 ? '{}' : lines.join('\n')
+  }
+}
+
+function hasCombinators(schema: any): boolean {
+  return ['oneOf', 'anyOf', 'allOf', '$ref', 'enum', 'const'].some(k => k in schema)
+}
+
+/**
+ * Generate TypeScript declarations for every schema in the registry, one module per type ID.
+ * GTS inheritance (an allOf branch that is a $ref to another schema) becomes `extends` (an intersection type when a base is not an interface),
+ * $refs to other schemas become type imports, and enum/const become literal unions.
+ *
+ * @example
+ * for (const module of generateTypeScriptModules(registry)) {
+ *   await writeFile(join(outDir, module.fileName), module.content)
+ * }
+ */
+export function generateTypeScriptModules(registry: JsonRegistry, options: TypeScriptGenerationOptions = {}): TypeScriptModule[] {
+  const schemas = Array.from(registry.jsonSchemas.values())
+    .filter(schema => schema.id)
+    .sort((a, b) => a.id.localeCompare(b.id))
+  const typeNames = assignTypeNames(schemas.map(s => s.id))
+  const importExtension = options.importExtension ?? '.js'
+
+  const modules: TypeScriptModule[] = schemas.map(schema => ({
+    typeId: schema.id,
+    fileName: typeModuleFileName(schema.id),
+    typeName: typeNames.get(schema.id)!,
+    content: new TypeModuleWriter(registry, schema, typeNames, importExtension).write()
+  }))
+
+  if ((options.index ?? true) && modules.length > 0) {
+    const exports = modules.map(m => `export type { ${m.typeName} } from './${m.fileName.replace(/\.ts$/, importExtension)}'`)
+    modules.push({ typeId: '', fileName: TYPESCRIPT_INDEX_FILE, typeName: '', content: [GENERATED_HEADER, '', ...exports, ''].join('\n') })
+  }
+  return modules
+}
+
+/**
+ * Join generated modules into a single file: imports between them are dropped, as the type names are unique
+ */
+export function bundleTypeScriptModules(modules: TypeScriptModule[]): string {
+  const bodies = modules
+    .filter(m => m.fileName !== TYPESCRIPT_INDEX_FILE)
+    .map(m => m.content
+      .split('\n')
+      .filter(line => line !== GENERATED_HEADER && !line.startsWith('import type '))
+      .join('\n')
+      .trim())
+  return [GENERATED_HEADER, '', bodies.join('\n\n'), ''].join('\n')
+}
@@ -87,6 +87,40 @@ export interface GlobalSettings {
   }
 }
 
+// Server events, pushed on GET /events as Server-Sent Events named after their type
+
+/** Request header identifying the client that saves a layout, echoed in LayoutSavedEvent */
+export const GTS_CLIENT_ID_HEADER = 'X-GTS-Client-Id'
+
+export interface EntityChangeEvent {
+  type: 'entity-added' | 'entity-changed' | 'entity-removed'
+  id: string
+  isSchema: boolean
+  /** Registry generation (as in GET /health) after the change */
+  registryGeneration: number
+}
+
+export interface ValidationChangeEvent {
+  type: 'validation-changed'
+  id: string
+  errors: number
+  warnings: number
+  registryGeneration: number
+}
+
+export interface LayoutSavedEvent {
+  type: 'layout-saved'
+  workspace: string
+  /** Entity the layout belongs to */
+  id: string
+  layoutId: string
+  version: string
+  /** Client that saved the layout, if it sent GTS_CLIENT_ID_HEADER */
+  clientId?: string
+}
+
+export type ServerEvent = EntityChangeEvent | ValidationChangeEvent | LayoutSavedEvent
+
 // Validation issue types for code highlighting
 export type ValidationIssueType = 'offset' | 'line'
 
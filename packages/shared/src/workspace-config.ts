@@ -0,0 +1,217 @@
+import Ajv, { type ValidateFunction } from 'ajv'
+import { getGtsConfig } from './entities.js'
+import type { GtsConfig, ValidationError } from './entities.js'
+import { parseLintConfig, type LintConfig } from './lint.js'
+
+/** Workspace configuration file, relative to the scanned root folder */
+export const WORKSPACE_CONFIG_PATH = '.gts/config.json'
+
+/**
+ * Where viewer layouts of a workspace are saved: in a .gts-viewer folder of the
+ * workspace itself, or in ~/.gts-viewer/layouts of the current user
+ */
+export type LayoutStorageChoice = 'workspace' | 'home'
+
+/**
+ * Workspace configuration as stored in .gts/config.json
+ */
+export interface WorkspaceConfig {
+  /** Entity and schema ID fields and cycle policy, overriding each app's defaults */
+  gts?: Partial<GtsConfig>
+  /** Globs of files to leave out of the registry, relative to the workspace root */
+  ignore?: string[]
+  /** Lint rules, as in the workspace lint file; the lint file takes precedence per rule */
+  lint?: LintConfig
+  layout?: {
+    storage?: LayoutStorageChoice
+  }
+}
+
+/**
+ * JSON Schema of the workspace configuration file
+ */
+export const WORKSPACE_CONFIG_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://globaltypesystem.io/schemas/gts-workspace-config.json',
+  title: 'GTS workspace configuration',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    gts: {
+      type: 'object',
+      properties: {
+        entity_id_fields: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+        schema_id_fields: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+        cycle_policy: { enum: ['allow', 'warning', 'error'] }
+      },
+      additionalProperties: false
+    },
+    ignore: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 }
+    },
+    lint: {
+      type: 'object',
+      properties: {
+        rules: {
+          type: 'object',
+          additionalProperties: {
+            anyOf: [
+              { enum: ['off', 'warning', 'error'] },
+              {
+                type: 'array',
+                items: [{ enum: ['off', 'warning', 'error'] }, { type: 'object' }],
+                minItems: 1,
+                maxItems: 2
+              }
+            ]
+          }
+        }
+      },
+      additionalProperties: false
+    },
+    layout: {
+      type: 'object',
+      properties: {
+        storage: { enum: ['workspace', 'home'] }
+      },
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false
+} as const
+
+let validateConfig: ValidateFunction | null = null
+
+/**
+ * Check parsed workspace configuration against WORKSPACE_CONFIG_SCHEMA
+ *
+ * @returns The schema violations, empty if the configuration is valid
+ */
+export function validateWorkspaceConfig(content: any): ValidationError[] {
+  if (!validateConfig) {
+    validateConfig = new Ajv({ allErrors: true, strict: false }).compile(WORKSPACE_CONFIG_SCHEMA)
+  }
+  if (validateConfig(content)) return []
+  return (validateConfig.errors || []).map(error => ({
+    instancePath: error.instancePath,
+    schemaPath: error.schemaPath,
+    keyword: error.keyword,
+    message: `Workspace config: ${error.instancePath || '/'} ${error.message || 'is invalid'}`,
+    params: error.params
+  }))
+}
+
+/**
+ * Read workspace configuration from parsed file content. Invalid settings are dropped,
+ * so a partly broken file still applies whatever it gets right.
+ *
+ * @example
+ * parseWorkspaceConfig({ gts: { entity_id_fields: ['id'] }, ignore: ['drafts/**'], layout: { storage: 'home' } })
+ */
+export function parseWorkspaceConfig(content: any): WorkspaceConfig {
+  const config: WorkspaceConfig = {}
+  if (!content || typeof content !== 'object' || Array.isArray(content)) return config
+
+  if (content.gts && typeof content.gts === 'object') {
+    const gts: Partial<GtsConfig> = {}
+    for (const key of ['entity_id_fields', 'schema_id_fields'] as const) {
+      const fields = content.gts[key]
+      if (Array.isArray(fields) && fields.length > 0 && fields.every(f => typeof f === 'string' && f)) {
+        gts[key] = fields
+      }
+    }
+    const policy = content.gts.cycle_policy
+    if (policy === 'allow' || policy === 'warning' || policy === 'error') gts.cycle_policy = policy
+    config.gts = gts
+  }
+  if (Array.isArray(content.ignore)) {
+    config.ignore = content.ignore.filter((glob: unknown) => typeof glob === 'string' && glob)
+  }
+  if (content.lint && typeof content.lint === 'object') {
+    config.lint = parseLintConfig(content.lint)
+  }
+  const storage = content.layout?.storage
+  if (storage === 'workspace' || storage === 'home') {
+    config.layout = { storage }
+  }
+  return config
+}
+
+/**
+ * GTS configuration with the workspace's ID fields and cycle policy applied over base
+ */
+export function applyWorkspaceGtsConfig(base: GtsConfig | undefined, config: WorkspaceConfig | null | undefined): GtsConfig {
+  const cfg = getGtsConfig(base)
+  return config?.gts ? getGtsConfig({ ...cfg, ...config.gts }) : cfg
+}
+
+/**
+ * Check whether a path names a workspace configuration file (cross-platform, browser-safe)
+ */
+export function isWorkspaceConfigPath(filePath: string): boolean {
+  return /(^|[\\\/])\.gts[\\\/]config\.json$/.test(filePath)
+}
+
+/**
+ * Root folder of the workspace a configuration file belongs to, e.g. '/repo' for '/repo/.gts/config.json'
+ */
+export function workspaceRootOf(configPath: string): string {
+  return configPath.replace(/[\\\/]?\.gts[\\\/]config\.json$/, '')
+}
+
+/**
+ * Convert a glob to a regular expression matching a whole relative path.
+ * '**' spans folders, '*' and '?' stay within one, '{a,b}' lists alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = ''
+  let inGroup = false
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // '**/' also matches no folder at all
+        const slash = glob[i + 2] === '/'
+        source += slash ? '(?:.*/)?' : '.*'
+        i += slash ? 2 : 1
+      } else {
+        source += '[^/]*'
+      }
+    } else if (ch === '?') {
+      source += '[^/]'
+    } else if (ch === '{') {
+      inGroup = true
+      source += '(?:'
+    } else if (ch === '}' && inGroup) {
+      inGroup = false
+      source += ')'
+    } else if (ch === ',' && inGroup) {
+      source += '|'
+    } else {
+      source += ch.replace(/[.+^$()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check whether a path relative to the workspace root is matched by any ignore glob.
+ * A glob without a slash matches a file or folder name at any depth, and a matched
+ * folder ignores everything below it.
+ *
+ * @example
+ * isIgnoredPath('fixtures/broken/a.json', ['fixtures/**'])  // true
+ * isIgnoredPath('src/drafts/a.json', ['drafts'])            // true
+ */
+export function isIgnoredPath(relativePath: string, globs: string[] | undefined): boolean {
+  if (!globs || globs.length === 0) return false
+  const path = relativePath.split('\\').join('/').replace(/^\.?\//, '')
+  const parts = path.split('/')
+  const prefixes = parts.map((_, i) => parts.slice(0, i + 1).join('/'))
+  return globs.some(glob => {
+    const pattern = glob.replace(/^\.?\//, '').replace(/\/$/, '')
+    const re = globToRegExp(pattern.includes('/') ? pattern : `**/${pattern}`)
+    return prefixes.some(prefix => re.test(prefix))
+  })
+}
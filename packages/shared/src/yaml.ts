@@ -2,14 +2,29 @@ import * as yaml from 'js-yaml'
 
 /**
  * Parse YAML string.
+ * A multi-document stream (documents separated by '---') yields an array with one item per
+ * document, in order, so each document is treated like an item of a multi-entity file and
+ * keeps its document index as listSequence. Empty documents are kept as null to keep indices stable.
  *
  * @param text - The YAML string to parse
- * @returns The parsed object
+ * @returns The parsed object, or an array of documents for a multi-document stream
  * @throws Error if the YAML is invalid
  */
 export function parseYAML(text: string): any {
+  const documents = parseYAMLDocuments(text)
+  return documents.length > 1 ? documents : documents[0]
+}
+
+/**
+ * Parse every document of a YAML stream.
+ *
+ * @param text - The YAML string to parse
+ * @returns One parsed value per document (an empty stream yields no documents)
+ * @throws Error if the YAML is invalid
+ */
+export function parseYAMLDocuments(text: string): any[] {
   try {
-    return yaml.load(text, { json: true })
+    return yaml.loadAll(text, undefined, { json: true })
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`YAML parse error: ${error.message}`)
@@ -29,3 +44,10 @@ export function tryParseYAML(text: string): any | null {
     return null
   }
 }
+
+/**
+ * Check whether a file name has a YAML extension (.yaml or .yml)
+ */
+export function isYamlFileName(fileName: string): boolean {
+  return /\.ya?ml$/i.test(fileName)
+}